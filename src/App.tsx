@@ -2,23 +2,90 @@
  * Main App - Routes and providers
  */
 import { Toaster } from "@/components/ui/sonner";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { queryClient } from "@/lib/query-client";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { TermProvider } from "@/contexts/TermContext";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
+import GradeAssignment from "./pages/GradeAssignment";
+import Gradebook from "./pages/Gradebook";
+import Attendance from "./pages/Attendance";
+import MyResults from "./pages/MyResults";
+import MyAttendance from "./pages/MyAttendance";
+import Fees from "./pages/Fees";
+import ManagePayments from "./pages/ManagePayments";
+import Admin from "./pages/Admin";
+import Courses from "./pages/Courses";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import Settings from "./pages/Settings";
+import Profile from "./pages/Profile";
+import Calendar from "./pages/Calendar";
+import Timetable from "./pages/Timetable";
+import ReportCard from "./pages/ReportCard";
+import Quizzes from "./pages/Quizzes";
+import TakeQuiz from "./pages/TakeQuiz";
+import QuizResults from "./pages/QuizResults";
+import NotFound from "./pages/NotFound";
+import RealtimeNotifier from "./components/realtime/RealtimeNotifier";
+import ProtectedRoute from "./components/layout/ProtectedRoute";
+import RequireRole from "./components/layout/RequireRole";
+import AppLayout from "./components/layout/AppLayout";
 
 const App = () => (
-  <BrowserRouter>
-    <AuthProvider>
-      <Toaster />
-      <Routes>
-        <Route path="/" element={<Index />} />
-        <Route path="/auth" element={<Auth />} />
-        <Route path="/dashboard" element={<Dashboard />} />
-      </Routes>
-    </AuthProvider>
-  </BrowserRouter>
+  <QueryClientProvider client={queryClient}>
+    <BrowserRouter>
+      <AuthProvider>
+        <TermProvider>
+          <Toaster />
+          <RealtimeNotifier />
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route element={<ProtectedRoute />}>
+              <Route element={<AppLayout />}>
+                <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/profile" element={<Profile />} />
+                <Route path="/settings" element={<Settings />} />
+                <Route path="/calendar" element={<Calendar />} />
+                <Route path="/timetable" element={<Timetable />} />
+                <Route element={<RequireRole roles={["teacher"]} />}>
+                  <Route path="/assignments/:id/grade" element={<GradeAssignment />} />
+                  <Route path="/gradebook" element={<Gradebook />} />
+                  <Route path="/attendance" element={<Attendance />} />
+                  <Route path="/quizzes/:id/results" element={<QuizResults />} />
+                </Route>
+                <Route element={<RequireRole roles={["teacher", "admin"]} />}>
+                  <Route path="/courses" element={<Courses />} />
+                  <Route path="/payments" element={<ManagePayments />} />
+                  <Route path="/students/:studentId/report-card" element={<ReportCard />} />
+                </Route>
+                <Route element={<RequireRole roles={["teacher", "student"]} />}>
+                  <Route path="/quizzes" element={<Quizzes />} />
+                </Route>
+                <Route element={<RequireRole roles={["student"]} />}>
+                  <Route path="/results" element={<MyResults />} />
+                  <Route path="/report-card" element={<ReportCard />} />
+                  <Route path="/my-attendance" element={<MyAttendance />} />
+                  <Route path="/fees" element={<Fees />} />
+                  <Route path="/quizzes/:id/take" element={<TakeQuiz />} />
+                </Route>
+                <Route element={<RequireRole roles={["admin"]} />}>
+                  <Route path="/admin" element={<Admin />} />
+                </Route>
+              </Route>
+            </Route>
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </TermProvider>
+      </AuthProvider>
+    </BrowserRouter>
+  </QueryClientProvider>
 );
 
 export default App;
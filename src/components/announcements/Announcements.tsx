@@ -0,0 +1,176 @@
+/**
+ * Announcements - Targeted, pinned and scheduled announcements; teachers post and edit their own
+ */
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { courseLabel } from '@/lib/courses';
+import { useRealtime } from '@/hooks/use-realtime';
+import { Announcement, announcementKeys, useAnnouncements, useDeleteAnnouncement, useSaveAnnouncement } from '@/repositories/announcements';
+import { useMyCourses } from '@/repositories/courses';
+import { useSections } from '@/repositories/sections';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+
+const emptyForm = { title: '', message: '', courseId: '', sectionId: '', publishAt: '', expiresAt: '', pinned: false };
+
+const toLocalInput = (date: string | null) => (date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : '');
+
+// Read state lives in the browser: anything published after the last "mark read" counts as unread
+const seenKey = (userId: string) => `announcements-seen:${userId}`;
+
+const Announcements = () => {
+  const { user, profile } = useAuth();
+  const { courses } = useMyCourses();
+  const queryClient = useQueryClient();
+  const { data: announcements = [] } = useAnnouncements();
+  const saveMutation = useSaveAnnouncement();
+  const deleteMutation = useDeleteAnnouncement();
+  const [form, setForm] = useState(emptyForm);
+  const [editing, setEditing] = useState<Announcement | null>(null);
+  const [lastSeen, setLastSeen] = useState(() => (user && localStorage.getItem(seenKey(user.id))) || '');
+  const { data: sections = [] } = useSections(form.courseId || undefined);
+
+  const canPost = profile?.role === 'teacher' && profile.approved;
+
+  useRealtime('announcements', () => queryClient.invalidateQueries({ queryKey: announcementKeys.all }));
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditing(null);
+  };
+
+  const startEdit = (a: Announcement) => {
+    setEditing(a);
+    setForm({
+      title: a.title,
+      message: a.message,
+      courseId: a.course_id ?? '',
+      sectionId: a.section_id ?? '',
+      publishAt: toLocalInput(a.publish_at),
+      expiresAt: toLocalInput(a.expires_at),
+      pinned: a.pinned,
+    });
+  };
+
+  const saveAnnouncement = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !form.title || !form.message) return;
+    if (form.publishAt && form.expiresAt && form.expiresAt <= form.publishAt) return toast.error('Expiry must be after the publish time');
+    const values = {
+      title: form.title,
+      message: form.message,
+      course_id: form.courseId || null,
+      section_id: form.courseId && form.sectionId ? form.sectionId : null,
+      publish_at: form.publishAt ? new Date(form.publishAt).toISOString() : editing ? editing.publish_at : new Date().toISOString(),
+      expires_at: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+      pinned: form.pinned,
+    };
+    saveMutation.mutate(editing ? { id: editing.id, values } : { values: { ...values, teacher_id: user.id } }, {
+      onSuccess: () => {
+        toast.success(editing ? 'Announcement updated' : 'Posted!');
+        resetForm();
+      },
+    });
+  };
+
+  const deleteAnnouncement = (a: Announcement) => {
+    if (!confirm(`Delete "${a.title}"?`)) return;
+    if (editing?.id === a.id) resetForm();
+    deleteMutation.mutate(a.id, { onSuccess: () => toast.success('Announcement deleted') });
+  };
+
+  const markRead = () => {
+    if (!user) return;
+    const seen = new Date().toISOString();
+    localStorage.setItem(seenKey(user.id), seen);
+    setLastSeen(seen);
+  };
+
+  const now = new Date();
+  const isUnread = (a: Announcement) => a.teacher_id !== user?.id && new Date(a.publish_at) <= now && (!lastSeen || new Date(a.publish_at) > new Date(lastSeen));
+  const unreadCount = announcements.filter(isUnread).length;
+
+  return (
+    <div className="bg-card p-4 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">
+          Announcements
+          {unreadCount > 0 && <span className="ml-2 px-2 py-0.5 rounded-full bg-primary text-primary-foreground text-xs align-middle">{unreadCount} new</span>}
+        </h2>
+        {unreadCount > 0 && <Button size="sm" variant="ghost" onClick={markRead}>Mark all read</Button>}
+      </div>
+
+      {canPost && (
+        <form onSubmit={saveAnnouncement} className="space-y-2 mb-4 p-3 bg-muted rounded">
+          <Input placeholder="Title" value={form.title} onChange={e => setForm({ ...form, title: e.target.value })} required />
+          <Textarea placeholder="Message" value={form.message} onChange={e => setForm({ ...form, message: e.target.value })} required />
+          <div className="grid sm:grid-cols-2 gap-2">
+            <select className="w-full p-2 border rounded bg-background" value={form.courseId} onChange={e => setForm({ ...form, courseId: e.target.value, sectionId: '' })}>
+              <option value="">Everyone</option>
+              {courses.map(c => <option key={c.id} value={c.id}>{courseLabel(c)}</option>)}
+            </select>
+            <select className="w-full p-2 border rounded bg-background" value={form.sectionId} onChange={e => setForm({ ...form, sectionId: e.target.value })} disabled={!form.courseId}>
+              <option value="">All sections</option>
+              {sections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+            <label className="text-xs text-muted-foreground">
+              Publish at (blank = now)
+              <Input type="datetime-local" value={form.publishAt} onChange={e => setForm({ ...form, publishAt: e.target.value })} />
+            </label>
+            <label className="text-xs text-muted-foreground">
+              Expires at (optional)
+              <Input type="datetime-local" value={form.expiresAt} onChange={e => setForm({ ...form, expiresAt: e.target.value })} />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={form.pinned} onChange={e => setForm({ ...form, pinned: e.target.checked })} />
+            Pin to top
+          </label>
+          <div className="flex gap-2">
+            <Button size="sm" type="submit" disabled={saveMutation.isPending}>{saveMutation.isPending ? 'Saving...' : editing ? 'Update' : 'Post'}</Button>
+            {editing && <Button size="sm" type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
+          </div>
+        </form>
+      )}
+
+      <div className="space-y-2">
+        {announcements.map(a => {
+          const isAuthor = a.teacher_id === user?.id;
+          const scheduled = new Date(a.publish_at) > now;
+          const expired = !!a.expires_at && new Date(a.expires_at) <= now;
+          return (
+            <div key={a.id} className={cn('p-3 bg-muted rounded', a.pinned && 'border-l-4 border-primary', isUnread(a) && 'ring-1 ring-primary', (scheduled || expired) && 'opacity-60')}>
+              <div className="flex justify-between gap-2">
+                <h3 className="font-medium">{a.title}{a.pinned && <span className="text-xs text-primary font-normal"> · Pinned</span>}</h3>
+                {(isAuthor || profile?.role === 'admin') && (
+                  <div className="flex gap-1 shrink-0">
+                    {isAuthor && canPost && <Button size="sm" variant="ghost" onClick={() => startEdit(a)}>Edit</Button>}
+                    <Button size="sm" variant="ghost" onClick={() => deleteAnnouncement(a)}>Delete</Button>
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-primary">
+                {a.course ? courseLabel(a.course) : 'Everyone'}{a.section && ` · ${a.section.name}`}
+                {scheduled && <span className="text-warning"> · Scheduled</span>}
+                {expired && <span className="text-destructive"> · Expired</span>}
+              </p>
+              <p className="text-sm text-muted-foreground whitespace-pre-line">{a.message}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {a.author?.full_name ?? 'Unknown'} · {format(new Date(a.publish_at), 'PPp')}
+                {a.expires_at && ` · until ${format(new Date(a.expires_at), 'PPp')}`}
+              </p>
+            </div>
+          );
+        })}
+        {announcements.length === 0 && <p className="text-muted-foreground">No announcements</p>}
+      </div>
+    </div>
+  );
+};
+
+export default Announcements;
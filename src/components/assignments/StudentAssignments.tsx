@@ -0,0 +1,115 @@
+/**
+ * Student Assignments - Assignments for your course with submission upload
+ */
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTerm } from '@/contexts/TermContext';
+import { isLate, isPastDue } from '@/lib/submissions';
+import { courseLabel } from '@/lib/courses';
+import { ScoredCriterion } from '@/lib/rubrics';
+import { useRealtime } from '@/hooks/use-realtime';
+import { Assignment, useAssignments } from '@/repositories/assignments';
+import { submissionKeys, useStudentSubmissions, useSubmitAssignment } from '@/repositories/assignment-submissions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import RubricGrid from '@/components/rubrics/RubricGrid';
+import SubmissionFileLink from '@/components/assignments/SubmissionFileLink';
+import { toast } from 'sonner';
+
+const StudentAssignments = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { termId } = useTerm();
+  const { data: allAssignments = [] } = useAssignments();
+  const assignments = allAssignments.filter(a => !termId || a.term_id === termId);
+  const { data: submissions = {} } = useStudentSubmissions(user?.id);
+  const submitMutation = useSubmitAssignment();
+  const [files, setFiles] = useState<Record<string, File | null>>({});
+
+  // Pick up grades as soon as the teacher returns them
+  useRealtime('assignment_submissions', () => queryClient.invalidateQueries({ queryKey: submissionKeys.byStudent(user.id) }), {
+    filter: `student_id=eq.${user?.id}`,
+    enabled: !!user,
+  });
+
+  const submit = (a: Assignment) => {
+    const file = files[a.id];
+    if (!user || !file) return;
+    const previous = submissions[a.id];
+    submitMutation.mutate({ studentId: user.id, assignmentId: a.id, previous, file }, {
+      onSuccess: () => {
+        toast.success(previous ? 'Resubmitted!' : 'Submitted!');
+        setFiles(f => ({ ...f, [a.id]: null }));
+      },
+    });
+  };
+
+  const uploading = submitMutation.isPending ? submitMutation.variables.assignmentId : null;
+
+  return (
+    <div className="bg-card p-4 rounded-lg shadow">
+      <h2 className="text-xl font-semibold mb-4">Assignments</h2>
+      <div className="space-y-2">
+        {assignments.map(a => {
+          const submission = submissions[a.id];
+          const late = submission && isLate(submission, a);
+          const graded = submission && submission.status !== 'submitted';
+          // Grades stay hidden until the teacher returns the submission
+          const returned = submission?.status === 'returned';
+          // A first submission is accepted late, but resubmitting closes at the deadline
+          const canSubmit = !graded && !(submission && isPastDue(a.due_date));
+
+          return (
+            <div key={a.id} className="p-3 bg-muted rounded space-y-2">
+              <div className="flex justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-medium">{a.title}</h3>
+                  {a.description && <p className="text-sm text-muted-foreground">{a.description}</p>}
+                  <p className="text-sm text-muted-foreground">
+                    {courseLabel(a.course)} · {a.due_date ? `Due ${format(new Date(a.due_date), 'PPp')}` : 'No due date'}
+                  </p>
+                  {a.file_url && (
+                    <a href={a.file_url} target="_blank" rel="noreferrer" className="text-sm text-primary underline">{a.file_name}</a>
+                  )}
+                </div>
+                <div className="text-right text-sm shrink-0">
+                  {!submission && (
+                    <span className={isPastDue(a.due_date) ? 'text-destructive' : 'text-muted-foreground'}>
+                      {isPastDue(a.due_date) ? 'Missing' : 'Not submitted'}
+                    </span>
+                  )}
+                  {submission && <span className="text-success">{returned ? 'Returned' : 'Submitted'}</span>}
+                  {late && <span className="block text-destructive font-medium">Late</span>}
+                  {returned && <span className="block">Grade: {submission.grade}</span>}
+                </div>
+              </div>
+
+              {submission && (
+                <p className="text-xs text-muted-foreground">
+                  <SubmissionFileLink submission={submission} className="underline" />
+                  {submission.submitted_at && ` · submitted ${format(new Date(submission.submitted_at), 'PPp')}`}
+                </p>
+              )}
+              {returned && submission.rubric_scores && <RubricGrid scores={submission.rubric_scores as ScoredCriterion[]} />}
+              {returned && submission.feedback && <p className="text-sm">Feedback: {submission.feedback}</p>}
+
+              {canSubmit && (
+                <div className="flex gap-2">
+                  <Input key={submission?.submitted_at ?? 'new'} type="file" onChange={e => setFiles({ ...files, [a.id]: e.target.files?.[0] ?? null })} />
+                  <Button size="sm" className="h-10" onClick={() => submit(a)} disabled={!files[a.id] || uploading === a.id}>
+                    {uploading === a.id ? 'Uploading...' : submission ? 'Resubmit' : 'Submit'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {assignments.length === 0 && <p className="text-muted-foreground">No assignments</p>}
+      </div>
+    </div>
+  );
+};
+
+export default StudentAssignments;
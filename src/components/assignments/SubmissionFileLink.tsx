@@ -0,0 +1,19 @@
+/**
+ * Submission File Link - Opens a submitted file through a signed link, since submissions are private
+ */
+import { Submission, useSubmissionFileUrl } from '@/repositories/assignment-submissions';
+
+type Props = {
+  submission: Pick<Submission, 'file_url' | 'file_name'>;
+  className?: string;
+};
+
+const SubmissionFileLink = ({ submission, className }: Props) => {
+  const { data: href } = useSubmissionFileUrl(submission.file_url);
+  const label = submission.file_name ?? 'Open submission';
+
+  if (!href) return <span className={className}>{label}</span>;
+  return <a href={href} target="_blank" rel="noreferrer" className={className}>{label}</a>;
+};
+
+export default SubmissionFileLink;
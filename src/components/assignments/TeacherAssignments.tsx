@@ -0,0 +1,129 @@
+/**
+ * Teacher Assignments - Create, edit, delete and list your assignments
+ */
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTerm } from '@/contexts/TermContext';
+import { courseLabel } from '@/lib/courses';
+import { Assignment, useDeleteAssignment, useSaveAssignment, useTeacherAssignments } from '@/repositories/assignments';
+import { useMyCourses } from '@/repositories/courses';
+import { useRubrics } from '@/repositories/rubrics';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+
+const emptyForm = { title: '', description: '', dueDate: '', courseId: '', rubricId: '' };
+
+const TeacherAssignments = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { courses } = useMyCourses();
+  const { termId } = useTerm();
+  const { data: allAssignments = [] } = useTeacherAssignments(user?.id);
+  const assignments = allAssignments.filter(a => !termId || a.term_id === termId);
+  const { data: rubrics = [] } = useRubrics();
+  const saveMutation = useSaveAssignment();
+  const deleteMutation = useDeleteAssignment();
+  const [form, setForm] = useState(emptyForm);
+  const [file, setFile] = useState<File | null>(null);
+  const [editing, setEditing] = useState<Assignment | null>(null);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setFile(null);
+    setEditing(null);
+  };
+
+  const startEdit = (a: Assignment) => {
+    setEditing(a);
+    setFile(null);
+    setForm({
+      title: a.title,
+      description: a.description ?? '',
+      dueDate: a.due_date ? format(new Date(a.due_date), "yyyy-MM-dd'T'HH:mm") : '',
+      courseId: a.course_id ?? '',
+      rubricId: a.rubric_id ?? '',
+    });
+  };
+
+  const saveAssignment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !form.title) return;
+    const values = {
+      title: form.title,
+      description: form.description || null,
+      due_date: form.dueDate ? new Date(form.dueDate).toISOString() : null,
+      course_id: form.courseId || null,
+      rubric_id: form.rubricId || null,
+    };
+    // Replace the attachment only when a new file was picked
+    saveMutation.mutate({ teacherId: user.id, editing, values, file }, {
+      onSuccess: () => {
+        toast.success(editing ? 'Assignment updated!' : 'Assignment created!');
+        resetForm();
+      },
+    });
+  };
+
+  const deleteAssignment = (a: Assignment) => {
+    if (!confirm(`Delete "${a.title}"?`)) return;
+    if (editing?.id === a.id) resetForm();
+    deleteMutation.mutate(a, { onSuccess: () => toast.success('Assignment deleted') });
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-lg shadow">
+      <h2 className="text-xl font-semibold mb-4">Assignments</h2>
+
+      <form onSubmit={saveAssignment} className="space-y-2 mb-4 p-3 bg-muted rounded">
+        <Input placeholder="Title" value={form.title} onChange={e => setForm({ ...form, title: e.target.value })} required />
+        <Textarea placeholder="Description" value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} />
+        <div className="grid sm:grid-cols-2 gap-2">
+          <Input type="datetime-local" value={form.dueDate} onChange={e => setForm({ ...form, dueDate: e.target.value })} />
+          <select className="w-full p-2 border rounded bg-background" value={form.courseId} onChange={e => setForm({ ...form, courseId: e.target.value })}>
+            <option value="">All students</option>
+            {courses.map(c => <option key={c.id} value={c.id}>{courseLabel(c)}</option>)}
+          </select>
+        </div>
+        <select className="w-full p-2 border rounded bg-background" value={form.rubricId} onChange={e => setForm({ ...form, rubricId: e.target.value })}>
+          <option value="">No rubric (numeric grade)</option>
+          {rubrics.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+        <Input key={editing?.id ?? 'new'} type="file" onChange={e => setFile(e.target.files?.[0] ?? null)} />
+        {editing?.file_name && !file && <p className="text-xs text-muted-foreground">Current file: {editing.file_name}</p>}
+        <div className="flex gap-2">
+          <Button size="sm" type="submit" disabled={saveMutation.isPending}>{saveMutation.isPending ? 'Saving...' : editing ? 'Update' : 'Create'}</Button>
+          {editing && <Button size="sm" type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
+        </div>
+      </form>
+
+      <div className="space-y-2">
+        {assignments.map(a => (
+          <div key={a.id} className="p-3 bg-muted rounded flex justify-between gap-4">
+            <div className="min-w-0">
+              <h3 className="font-medium">{a.title}</h3>
+              <p className="text-sm text-muted-foreground">
+                {courseLabel(a.course)} · {a.due_date ? `Due ${format(new Date(a.due_date), 'PPp')}` : 'No due date'}
+                {a.rubric_id && ` · Rubric: ${rubrics.find(r => r.id === a.rubric_id)?.name ?? ''}`}
+              </p>
+              {a.file_url && (
+                <a href={a.file_url} target="_blank" rel="noreferrer" className="text-sm text-primary underline">{a.file_name}</a>
+              )}
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button size="sm" onClick={() => navigate(`/assignments/${a.id}/grade`)}>Grade</Button>
+              <Button size="sm" variant="outline" onClick={() => startEdit(a)}>Edit</Button>
+              <Button size="sm" variant="destructive" onClick={() => deleteAssignment(a)}>Delete</Button>
+            </div>
+          </div>
+        ))}
+        {assignments.length === 0 && <p className="text-muted-foreground">No assignments</p>}
+      </div>
+    </div>
+  );
+};
+
+export default TeacherAssignments;
@@ -0,0 +1,41 @@
+/**
+ * Calendar Feed - Subscribe URL and .ics download for the signed-in user's calendar
+ */
+import { useCalendarFeedUrl, useResetCalendarFeed } from '@/repositories/calendar-feed';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+const CalendarFeed = () => {
+  const { data: url } = useCalendarFeedUrl();
+  const resetMutation = useResetCalendarFeed();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(url);
+    toast.success('Feed URL copied');
+  };
+
+  const reset = () => {
+    if (!confirm('Calendars subscribed with the current URL will stop updating. Continue?')) return;
+    resetMutation.mutate(undefined, { onSuccess: () => toast.success('New feed URL created') });
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-lg shadow space-y-2">
+      <h2 className="text-xl font-semibold">Subscribe</h2>
+      <p className="text-sm text-muted-foreground">
+        Add this URL to Google Calendar, Outlook or Apple Calendar to keep your classes and deadlines in sync. Keep it private.
+      </p>
+      <Input readOnly value={url ?? ''} onFocus={e => e.target.select()} />
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={copy} disabled={!url}>Copy URL</Button>
+        <Button size="sm" variant="outline" asChild disabled={!url}>
+          <a href={url} download="edutrackers.ics">Download .ics</a>
+        </Button>
+        <Button size="sm" variant="ghost" onClick={reset} disabled={resetMutation.isPending}>Reset URL</Button>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarFeed;
@@ -0,0 +1,104 @@
+/**
+ * Terms Panel - Admins define academic terms and holidays, and roll over to the next term
+ */
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Term, useCreateHoliday, useCreateTerm, useDeleteHoliday, useDeleteTerm, useHolidays, useRolloverTerm, useTerms } from '@/repositories/terms';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+const emptyRange = { name: '', startsOn: '', endsOn: '' };
+
+const formatRange = (startsOn: string, endsOn: string) =>
+  startsOn === endsOn ? format(new Date(`${startsOn}T00:00`), 'PP') : `${format(new Date(`${startsOn}T00:00`), 'PP')} – ${format(new Date(`${endsOn}T00:00`), 'PP')}`;
+
+const TermsPanel = () => {
+  const { data: terms = [] } = useTerms();
+  const { data: holidays = [] } = useHolidays();
+  const createTermMutation = useCreateTerm();
+  const deleteTermMutation = useDeleteTerm();
+  const createHolidayMutation = useCreateHoliday();
+  const deleteHolidayMutation = useDeleteHoliday();
+  const rolloverMutation = useRolloverTerm();
+  const [termForm, setTermForm] = useState(emptyRange);
+  const [holidayForm, setHolidayForm] = useState(emptyRange);
+  const [promote, setPromote] = useState(true);
+
+  const addTerm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (termForm.endsOn < termForm.startsOn) return toast.error('The term must end after it starts');
+    createTermMutation.mutate({ name: termForm.name.trim(), starts_on: termForm.startsOn, ends_on: termForm.endsOn }, {
+      onSuccess: () => {
+        toast.success('Term added');
+        setTermForm(emptyRange);
+      },
+    });
+  };
+
+  // Archives the active term; promoted students move on to each course's next course
+  const rollover = (term: Term) => {
+    if (!confirm(`Make "${term.name}" the active term? The current term will be archived.`)) return;
+    rolloverMutation.mutate({ term, promote }, {
+      onSuccess: enrolled => toast.success(promote ? `${term.name} is now active · ${enrolled} students promoted` : `${term.name} is now active`),
+    });
+  };
+
+  // A one-day holiday can leave the end date empty
+  const addHoliday = (e: React.FormEvent) => {
+    e.preventDefault();
+    const endsOn = holidayForm.endsOn || holidayForm.startsOn;
+    if (endsOn < holidayForm.startsOn) return toast.error('The holiday must end after it starts');
+    createHolidayMutation.mutate({ name: holidayForm.name.trim(), starts_on: holidayForm.startsOn, ends_on: endsOn }, {
+      onSuccess: () => {
+        toast.success('Holiday added');
+        setHolidayForm(emptyRange);
+      },
+    });
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-lg shadow space-y-4">
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold">Terms</h2>
+        {terms.map(t => (
+          <div key={t.id} className="flex justify-between items-center p-2 bg-muted rounded text-sm">
+            <span><span className="font-medium">{t.name}</span> · {formatRange(t.starts_on, t.ends_on)} · <span className="capitalize">{t.status}</span></span>
+            <div className="flex gap-2">
+              {t.status === 'upcoming' && <Button size="sm" variant="outline" onClick={() => rollover(t)} disabled={rolloverMutation.isPending}>Make active</Button>}
+              <Button size="sm" variant="ghost" onClick={() => deleteTermMutation.mutate(t, { onSuccess: () => toast.success('Term removed') })}>Remove</Button>
+            </div>
+          </div>
+        ))}
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={promote} onChange={e => setPromote(e.target.checked)} />
+          Promote students to the next course when a term becomes active
+        </label>
+        <form onSubmit={addTerm} className="grid grid-cols-2 gap-2">
+          <Input className="col-span-2" placeholder="Term name (e.g. Spring 2026)" value={termForm.name} onChange={e => setTermForm({ ...termForm, name: e.target.value })} required />
+          <Input type="date" value={termForm.startsOn} onChange={e => setTermForm({ ...termForm, startsOn: e.target.value })} required />
+          <Input type="date" value={termForm.endsOn} onChange={e => setTermForm({ ...termForm, endsOn: e.target.value })} required />
+          <Button size="sm" type="submit" className="col-span-2" disabled={createTermMutation.isPending}>Add term</Button>
+        </form>
+      </div>
+
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold">Holidays</h2>
+        {holidays.map(h => (
+          <div key={h.id} className="flex justify-between items-center p-2 bg-muted rounded text-sm">
+            <span><span className="font-medium">{h.name}</span> · {formatRange(h.starts_on, h.ends_on)}</span>
+            <Button size="sm" variant="ghost" onClick={() => deleteHolidayMutation.mutate(h, { onSuccess: () => toast.success('Holiday removed') })}>Remove</Button>
+          </div>
+        ))}
+        <form onSubmit={addHoliday} className="grid grid-cols-2 gap-2">
+          <Input className="col-span-2" placeholder="Holiday name" value={holidayForm.name} onChange={e => setHolidayForm({ ...holidayForm, name: e.target.value })} required />
+          <Input type="date" value={holidayForm.startsOn} onChange={e => setHolidayForm({ ...holidayForm, startsOn: e.target.value })} required />
+          <Input type="date" value={holidayForm.endsOn} onChange={e => setHolidayForm({ ...holidayForm, endsOn: e.target.value })} />
+          <Button size="sm" type="submit" className="col-span-2" disabled={createHolidayMutation.isPending}>Add holiday</Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TermsPanel;
@@ -0,0 +1,83 @@
+/**
+ * Gradebook Export - Download a course's marks, subject grades and assignment grades for the selected term as CSV or XLSX
+ */
+import { format } from 'date-fns';
+import { useTerm } from '@/contexts/TermContext';
+import { downloadCsv } from '@/lib/csv';
+import { EXAM_TYPES, GradingScheme, gradeSubjects, groupBy, letterGrade, percentage } from '@/lib/grading';
+import { downloadXlsx, Sheet } from '@/lib/xlsx';
+import { Course } from '@/repositories/courses';
+import { useCourseSubmissions } from '@/repositories/assignment-submissions';
+import { useCourseResults } from '@/repositories/results';
+import { Button } from '@/components/ui/button';
+
+type Props = {
+  course: Course;
+  scheme: GradingScheme;
+  credits: Record<string, number>;
+};
+
+const GradebookExport = ({ course, scheme, credits }: Props) => {
+  const { data: results = [] } = useCourseResults(course.id);
+  const { data: submissions = [] } = useCourseSubmissions(course.id);
+  const { termId, term } = useTerm();
+
+  const marks = results.filter(r => !termId || r.term_id === termId);
+  const work = submissions.filter(s => !termId || s.assignment.term_id === termId);
+
+  const buildSheets = (): Sheet[] => {
+    const grades = Object.values(groupBy(marks, r => r.student_id)).flatMap(rows =>
+      gradeSubjects(rows, scheme, credits).map(g => [
+        rows[0].student?.roll_number, rows[0].student?.full_name, g.subject, g.credits,
+        ...EXAM_TYPES.map(t => g.breakdown[t] != null ? Number(g.breakdown[t].toFixed(1)) : null),
+        Number(g.percent.toFixed(1)), g.letter, g.point, g.complete ? '' : 'provisional',
+      ]));
+
+    return [
+      {
+        name: 'Subject grades',
+        rows: [['Roll', 'Name', 'Subject', 'Credits', ...EXAM_TYPES.map(t => `${t} %`), 'Total %', 'Grade', 'Point', 'Note'], ...grades],
+      },
+      {
+        name: 'Exam marks',
+        rows: [
+          ['Roll', 'Name', 'Subject', 'Exam', 'Date', 'Marks', 'Total', '%', 'Grade', 'Remarks'],
+          ...marks.map(r => {
+            const percent = percentage(r.marks_obtained, r.total_marks);
+            return [r.student?.roll_number, r.student?.full_name, r.subject, r.exam_type, r.exam_date, r.marks_obtained, r.total_marks, Number(percent.toFixed(1)), letterGrade(percent, scheme.bands), r.remarks];
+          }),
+        ],
+      },
+      {
+        name: 'Assignments',
+        rows: [
+          ['Roll', 'Name', 'Assignment', 'Due', 'Submitted', 'Status', 'Grade', 'Feedback'],
+          ...work.map(s => [
+            s.student?.roll_number, s.student?.full_name, s.assignment.title,
+            s.assignment.due_date && format(new Date(s.assignment.due_date), 'yyyy-MM-dd HH:mm'),
+            s.submitted_at && format(new Date(s.submitted_at), 'yyyy-MM-dd HH:mm'),
+            s.status, s.grade, s.feedback,
+          ]),
+        ],
+      },
+    ];
+  };
+
+  const baseName = `${course.code}${term ? `-${term.name.replace(/ /g, '-')}` : ''}`;
+
+  // One CSV per sheet, since CSV has no notion of tabs
+  const exportCsv = () => buildSheets().forEach(sheet =>
+    downloadCsv(`${baseName}-${sheet.name.toLowerCase().replace(/ /g, '-')}.csv`, sheet.rows));
+
+  const exportXlsx = () => downloadXlsx(`${baseName}-gradebook.xlsx`, buildSheets());
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">{term ? term.name : 'All terms'}</span>
+      <Button variant="outline" onClick={exportCsv} disabled={marks.length + work.length === 0}>Export CSV</Button>
+      <Button variant="outline" onClick={exportXlsx} disabled={marks.length + work.length === 0}>Export XLSX</Button>
+    </div>
+  );
+};
+
+export default GradebookExport;
@@ -0,0 +1,113 @@
+/**
+ * Grading Scheme Form - Teachers edit grade bands, exam weights, best-of rules and subject credit hours
+ */
+import { useEffect, useState } from 'react';
+import { DEFAULT_CREDITS, EXAM_TYPES, GradeBand, GradingScheme, bandsError } from '@/lib/grading';
+import { useSaveGradingScheme } from '@/repositories/grading-scheme';
+import { useSaveSubject } from '@/repositories/subjects';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+type BandRow = { letter: string; min: string; point: string };
+
+const emptyBand: BandRow = { letter: '', min: '', point: '' };
+
+type Props = {
+  scheme: GradingScheme;
+  subject: string;
+  credits: Record<string, number>;
+};
+
+const GradingSchemeForm = ({ scheme, subject, credits }: Props) => {
+  const [bands, setBands] = useState<BandRow[]>([]);
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [bestOfCt, setBestOfCt] = useState('');
+  const [creditHours, setCreditHours] = useState('');
+  const saveScheme = useSaveGradingScheme();
+  const saveSubject = useSaveSubject();
+  const saving = saveScheme.isPending || saveSubject.isPending;
+
+  useEffect(() => {
+    setBands(scheme.bands.map(b => ({ letter: b.letter, min: b.min.toString(), point: b.point.toString() })));
+    setWeights(Object.fromEntries(EXAM_TYPES.map(t => [t, (scheme.weights[t] ?? 0).toString()])));
+    setBestOfCt(scheme.bestOf.CT?.toString() ?? '');
+  }, [scheme]);
+
+  useEffect(() => {
+    setCreditHours((credits[subject] ?? DEFAULT_CREDITS).toString());
+  }, [subject, credits]);
+
+  const weightTotal = EXAM_TYPES.reduce((sum, t) => sum + (Number(weights[t]) || 0), 0);
+
+  // Blank numbers stay NaN so validation rejects them instead of reading them as 0
+  const parsedBands: GradeBand[] = bands.map(b => ({
+    letter: b.letter.trim(),
+    min: b.min.trim() ? Number(b.min) : NaN,
+    point: b.point.trim() ? Number(b.point) : NaN,
+  }));
+  const setBand = (index: number, values: Partial<BandRow>) => setBands(bands.map((b, i) => (i === index ? { ...b, ...values } : b)));
+
+  const save = async () => {
+    const bandError = bandsError(parsedBands);
+    if (bandError) return toast.error(bandError);
+    if (weightTotal !== 100) return toast.error('Exam weights must add up to 100%');
+    if (bestOfCt && !(Number(bestOfCt) >= 1)) return toast.error('Best-of count must be at least 1');
+    if (subject && !(Number(creditHours) > 0)) return toast.error('Credit hours must be greater than 0');
+
+    try {
+      await Promise.all([
+        saveScheme.mutateAsync({
+          bands: parsedBands,
+          weights: Object.fromEntries(EXAM_TYPES.map(t => [t, Number(weights[t]) || 0])),
+          bestOf: bestOfCt ? { ...scheme.bestOf, CT: Number(bestOfCt) } : Object.fromEntries(Object.entries(scheme.bestOf).filter(([t]) => t !== 'CT')),
+        }),
+        subject && saveSubject.mutateAsync({ name: subject, credit_hours: Number(creditHours) }),
+      ]);
+      toast.success('Grading scheme saved');
+    } catch {
+      // Already reported by the query client
+    }
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-lg shadow space-y-3">
+      <h2 className="text-xl font-semibold">Grading scheme</h2>
+      <div className="space-y-2">
+        <Label>Grade bands, highest first</Label>
+        {bands.map((b, i) => (
+          <div key={i} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+            <Input placeholder="Letter" value={b.letter} onChange={e => setBand(i, { letter: e.target.value })} />
+            <Input type="number" min="0" max="100" step="any" placeholder="From %" value={b.min} onChange={e => setBand(i, { min: e.target.value })} />
+            <Input type="number" min="0" step="any" placeholder="Points" value={b.point} onChange={e => setBand(i, { point: e.target.value })} />
+            <Button size="sm" variant="ghost" className="h-10" onClick={() => setBands(bands.filter((_, j) => j !== i))}>Remove</Button>
+          </div>
+        ))}
+        <Button size="sm" variant="outline" onClick={() => setBands([...bands, emptyBand])}>Add band</Button>
+      </div>
+      <div className="grid sm:grid-cols-5 gap-2 items-end">
+        {EXAM_TYPES.map(t => (
+          <div key={t} className="space-y-1">
+            <Label>{t} weight %</Label>
+            <Input type="number" min="0" max="100" value={weights[t] ?? ''} onChange={e => setWeights({ ...weights, [t]: e.target.value })} />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <Label>Best N CTs</Label>
+          <Input type="number" min="1" placeholder="All" value={bestOfCt} onChange={e => setBestOfCt(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>{subject || 'Subject'} credits</Label>
+          <Input type="number" min="0" step="0.5" value={creditHours} onChange={e => setCreditHours(e.target.value)} disabled={!subject} />
+        </div>
+      </div>
+      <div className="flex items-center gap-4">
+        <Button size="sm" onClick={save} disabled={saving}>{saving ? 'Saving...' : 'Save scheme'}</Button>
+        <span className={weightTotal === 100 ? 'text-sm text-muted-foreground' : 'text-sm text-destructive'}>Weights total {weightTotal}%</span>
+      </div>
+    </div>
+  );
+};
+
+export default GradingSchemeForm;
@@ -0,0 +1,77 @@
+/**
+ * App Layout - Header with per-role navigation around every signed-in page
+ */
+import { NavLink, Outlet, useNavigate } from 'react-router-dom';
+import { GraduationCap } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { hasRole, Role } from '@/lib/roles';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import NotificationBell from '@/components/notifications/NotificationBell';
+import TermSwitcher from '@/components/layout/TermSwitcher';
+
+// Items without roles are for everyone signed in, including teachers awaiting approval
+const NAV_ITEMS: { to: string; label: string; roles?: Role[] }[] = [
+  { to: '/dashboard', label: 'Dashboard' },
+  { to: '/calendar', label: 'Calendar' },
+  { to: '/timetable', label: 'Timetable' },
+  { to: '/gradebook', label: 'Gradebook', roles: ['teacher'] },
+  { to: '/attendance', label: 'Attendance', roles: ['teacher'] },
+  { to: '/payments', label: 'Payments', roles: ['teacher', 'admin'] },
+  { to: '/courses', label: 'Courses', roles: ['teacher', 'admin'] },
+  { to: '/quizzes', label: 'Quizzes', roles: ['teacher', 'student'] },
+  { to: '/results', label: 'My Results', roles: ['student'] },
+  { to: '/my-attendance', label: 'Attendance', roles: ['student'] },
+  { to: '/fees', label: 'Fees', roles: ['student'] },
+  { to: '/admin', label: 'Admin', roles: ['admin'] },
+  { to: '/profile', label: 'Profile' },
+  { to: '/settings', label: 'Settings' },
+];
+
+const AppLayout = () => {
+  const { profile, signOut } = useAuth();
+  const navigate = useNavigate();
+
+  const logout = async () => {
+    await signOut();
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card print:hidden">
+        <div className="flex flex-wrap justify-between items-center gap-4 px-6 py-3">
+          <div className="flex flex-wrap items-center gap-6">
+            <NavLink to="/dashboard" className="flex items-center gap-2 font-bold">
+              <GraduationCap className="h-5 w-5 text-primary" />
+              EduTrackers
+            </NavLink>
+            <nav className="flex flex-wrap gap-1">
+              {NAV_ITEMS.filter(item => !item.roles || hasRole(profile, item.roles)).map(item => (
+                <NavLink
+                  key={item.to}
+                  to={item.to}
+                  className={({ isActive }) => cn('px-3 py-2 rounded text-sm', isActive ? 'bg-accent font-medium' : 'text-muted-foreground hover:bg-muted')}
+                >
+                  {item.label}
+                </NavLink>
+              ))}
+            </nav>
+          </div>
+          <div className="flex items-center gap-2">
+            <TermSwitcher />
+            <NotificationBell />
+            <Button variant="outline" onClick={logout}>Logout</Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-6 print:p-0">
+        <Outlet />
+      </main>
+    </div>
+  );
+};
+
+export default AppLayout;
@@ -0,0 +1,17 @@
+/**
+ * Protected Route - Sends signed-out visitors to /auth, remembering where they were going
+ */
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+
+const ProtectedRoute = () => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  if (!user) return <Navigate to="/auth" replace state={{ from: location }} />;
+
+  return <Outlet />;
+};
+
+export default ProtectedRoute;
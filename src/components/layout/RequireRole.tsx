@@ -0,0 +1,14 @@
+/**
+ * Require Role - Shows the 403 page unless the signed-in user has one of the given roles
+ */
+import { Outlet } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { hasRole, Role } from '@/lib/roles';
+import Forbidden from '@/pages/Forbidden';
+
+const RequireRole = ({ roles }: { roles: Role[] }) => {
+  const { profile } = useAuth();
+  return hasRole(profile, roles) ? <Outlet /> : <Forbidden />;
+};
+
+export default RequireRole;
@@ -0,0 +1,21 @@
+/**
+ * Term Switcher - Header picker for the term that gradebooks, rosters and fees are scoped to
+ */
+import { useTerm } from '@/contexts/TermContext';
+
+const TermSwitcher = () => {
+  const { terms, termId, setTermId } = useTerm();
+
+  if (terms.length === 0) return null;
+
+  return (
+    <select className="p-2 border rounded bg-background text-sm" value={termId} onChange={e => setTermId(e.target.value)} aria-label="Term">
+      <option value="">All terms</option>
+      {terms.map(t => (
+        <option key={t.id} value={t.id}>{t.name}{t.status === 'active' ? ' (current)' : t.status === 'archived' ? ' (archived)' : ''}</option>
+      ))}
+    </select>
+  );
+};
+
+export default TermSwitcher;
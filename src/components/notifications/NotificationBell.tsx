@@ -0,0 +1,111 @@
+/**
+ * Notification Bell - Header menu listing your notifications, with read state and category mutes
+ */
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { Constants, Enums } from '@/integrations/supabase/types';
+import { useRealtime } from '@/hooks/use-realtime';
+import { cn } from '@/lib/utils';
+import { Notification, notificationKeys, useMarkNotificationsRead, useNotifications } from '@/repositories/notifications';
+import { useUpdateProfile } from '@/repositories/profiles';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+type Category = Enums<'notification_category'>;
+
+const CATEGORIES = Constants.public.Enums.notification_category;
+
+const CATEGORY_LABELS: Record<Category, string> = {
+  assignment: 'Assignments',
+  grade: 'Grades',
+  result: 'Results',
+  payment: 'Fees',
+  attendance: 'Attendance',
+};
+
+const NotificationBell = () => {
+  const { user, profile } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: notifications = [] } = useNotifications(user?.id);
+  const markReadMutation = useMarkNotificationsRead(user?.id);
+  const updateProfile = useUpdateProfile();
+  const [showSettings, setShowSettings] = useState(false);
+  const muted = profile?.muted_categories ?? [];
+
+  useRealtime('notifications', () => queryClient.invalidateQueries({ queryKey: notificationKeys.byUser(user.id) }), {
+    filter: `user_id=eq.${user?.id}`,
+    enabled: !!user,
+  });
+
+  const markRead = (ids: string[]) => {
+    if (ids.length === 0) return;
+    markReadMutation.mutate({ ids, readAt: new Date().toISOString() });
+  };
+
+  const open = (n: Notification) => {
+    if (!n.read_at) markRead([n.id]);
+    if (n.link) navigate(n.link);
+  };
+
+  const toggleMute = (category: Category) => {
+    if (!user) return;
+    const next = muted.includes(category) ? muted.filter(c => c !== category) : [...muted, category];
+    updateProfile.mutate({ id: user.id, values: { muted_categories: next } });
+  };
+
+  const unread = notifications.filter(n => !n.read_at);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs flex items-center justify-center">
+              {unread.length > 9 ? '9+' : unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex justify-between items-center p-3 border-b">
+          <h3 className="font-semibold">Notifications</h3>
+          <div className="flex gap-1">
+            <Button size="sm" variant="ghost" onClick={() => markRead(unread.map(n => n.id))} disabled={unread.length === 0}>Mark all read</Button>
+            <Button size="sm" variant="ghost" onClick={() => setShowSettings(!showSettings)}>{showSettings ? 'Done' : 'Settings'}</Button>
+          </div>
+        </div>
+
+        {showSettings ? (
+          <div className="p-3 space-y-2">
+            <p className="text-sm text-muted-foreground">Notify me about:</p>
+            {CATEGORIES.map(c => (
+              <label key={c} className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={!muted.includes(c)} onChange={() => toggleMute(c)} />
+                {CATEGORY_LABELS[c]}
+              </label>
+            ))}
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(n => (
+              <button key={n.id} className={cn('w-full text-left p-3 border-b last:border-0 hover:bg-muted', !n.read_at && 'bg-accent/50')} onClick={() => open(n)}>
+                <p className={cn('text-sm', !n.read_at && 'font-medium')}>{n.title}</p>
+                {n.body && <p className="text-xs text-muted-foreground">{n.body}</p>}
+                <p className="text-xs text-muted-foreground capitalize">{n.category} · {formatDistanceToNow(new Date(n.created_at), { addSuffix: true })}</p>
+              </button>
+            ))}
+            {notifications.length === 0 && <p className="text-sm text-muted-foreground p-3">You're all caught up</p>}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
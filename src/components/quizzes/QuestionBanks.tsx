@@ -0,0 +1,204 @@
+/**
+ * Question Banks - Teachers keep per-course banks of MCQ, multi-select, true/false and short-answer questions
+ */
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { courseLabel } from '@/lib/courses';
+import { QUESTION_TYPE_LABELS, QUESTION_TYPES, QuestionType, TRUE_FALSE_OPTIONS } from '@/lib/quizzes';
+import { useMyCourses } from '@/repositories/courses';
+import { Question, useCreateQuestionBank, useDeleteQuestion, useDeleteQuestionBank, useQuestionBanks, useQuestions, useSaveQuestion } from '@/repositories/question-banks';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+
+const emptyQuestion = { type: 'mcq' as QuestionType, prompt: '', options: ['', ''], correct: [] as number[], modelAnswer: '', points: '1' };
+
+const hasOwnOptions = (type: QuestionType) => type === 'mcq' || type === 'multi_select';
+
+// Switching between multiple choice and multi-select keeps the typed options
+const optionsFor = (type: QuestionType, previous: typeof emptyQuestion) =>
+  type === 'true_false' ? TRUE_FALSE_OPTIONS : type === 'short_answer' ? [] : hasOwnOptions(previous.type) ? previous.options : ['', ''];
+
+const QuestionBanks = () => {
+  const { user } = useAuth();
+  const { courses } = useMyCourses();
+  const { data: banks = [] } = useQuestionBanks(courses.map(c => c.id));
+  const [bankId, setBankId] = useState('');
+  const { data: questions = [] } = useQuestions(bankId || undefined);
+  const createBankMutation = useCreateQuestionBank();
+  const deleteBankMutation = useDeleteQuestionBank();
+  const saveMutation = useSaveQuestion();
+  const deleteMutation = useDeleteQuestion();
+  const [bankForm, setBankForm] = useState({ name: '', courseId: '' });
+  const [form, setForm] = useState(emptyQuestion);
+  const [editing, setEditing] = useState<Question | null>(null);
+
+  const bank = banks.find(b => b.id === bankId);
+
+  const resetForm = () => {
+    setForm(emptyQuestion);
+    setEditing(null);
+  };
+
+  const createBank = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !bankForm.courseId) return toast.error('Select a course');
+    createBankMutation.mutate({ name: bankForm.name.trim(), course_id: bankForm.courseId, teacher_id: user.id }, {
+      onSuccess: created => {
+        toast.success('Question bank created');
+        setBankForm({ name: '', courseId: '' });
+        setBankId(created.id);
+      },
+    });
+  };
+
+  const deleteBank = () => {
+    if (!bank || !confirm(`Delete "${bank.name}"? Its questions and every quiz drawing from it are deleted too.`)) return;
+    deleteBankMutation.mutate(bank, {
+      onSuccess: () => {
+        toast.success('Question bank deleted');
+        setBankId('');
+        resetForm();
+      },
+    });
+  };
+
+  const setType = (type: QuestionType) => setForm({ ...form, type, options: optionsFor(type, form), correct: [] });
+
+  const setOption = (index: number, value: string) => setForm({ ...form, options: form.options.map((o, i) => (i === index ? value : o)) });
+
+  // Later options shift down, and so do the correct answers pointing at them
+  const removeOption = (index: number) => setForm({
+    ...form,
+    options: form.options.filter((_, i) => i !== index),
+    correct: form.correct.filter(c => c !== index).map(c => (c > index ? c - 1 : c)),
+  });
+
+  const toggleCorrect = (index: number) => setForm({
+    ...form,
+    correct: form.type === 'multi_select'
+      ? form.correct.includes(index) ? form.correct.filter(c => c !== index) : [...form.correct, index].sort((a, b) => a - b)
+      : [index],
+  });
+
+  const startEdit = (q: Question) => {
+    setEditing(q);
+    setForm({ type: q.type, prompt: q.prompt, options: q.options, correct: q.correct, modelAnswer: q.model_answer ?? '', points: q.points.toString() });
+  };
+
+  const saveQuestion = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bank) return;
+    const options = form.options.map(o => o.trim());
+    if (form.type !== 'short_answer') {
+      if (options.some(o => !o)) return toast.error('Fill in every option');
+      if (form.correct.length === 0) return toast.error('Mark the correct answer');
+    }
+    if (!(Number(form.points) > 0)) return toast.error('Points must be more than 0');
+    const values = {
+      type: form.type,
+      prompt: form.prompt.trim(),
+      options,
+      correct: form.correct,
+      model_answer: form.type === 'short_answer' ? form.modelAnswer || null : null,
+      points: Number(form.points),
+    };
+    saveMutation.mutate({ bankId: bank.id, editing, values }, {
+      onSuccess: () => {
+        toast.success(editing ? 'Question updated' : 'Question added');
+        resetForm();
+      },
+    });
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-lg shadow space-y-4">
+      <h2 className="text-xl font-semibold">Question banks</h2>
+
+      <form onSubmit={createBank} className="grid sm:grid-cols-3 gap-2">
+        <Input placeholder="Bank name" value={bankForm.name} onChange={e => setBankForm({ ...bankForm, name: e.target.value })} required />
+        <select className="w-full p-2 border rounded bg-background" value={bankForm.courseId} onChange={e => setBankForm({ ...bankForm, courseId: e.target.value })}>
+          <option value="">Select course</option>
+          {courses.map(c => <option key={c.id} value={c.id}>{courseLabel(c)}</option>)}
+        </select>
+        <Button type="submit" disabled={createBankMutation.isPending}>Create bank</Button>
+      </form>
+
+      <div className="flex gap-2">
+        <select className="w-full p-2 border rounded bg-background" value={bankId} onChange={e => { setBankId(e.target.value); resetForm(); }}>
+          <option value="">Select a bank</option>
+          {banks.map(b => <option key={b.id} value={b.id}>{b.name} · {courseLabel(courses.find(c => c.id === b.course_id))}</option>)}
+        </select>
+        {bank && <Button variant="destructive" onClick={deleteBank}>Delete</Button>}
+      </div>
+
+      {bank && (
+        <>
+          {/* Question editor */}
+          <form onSubmit={saveQuestion} className="space-y-2 p-3 bg-muted rounded">
+            <div className="grid sm:grid-cols-2 gap-2">
+              <select className="w-full p-2 border rounded bg-background" value={form.type} onChange={e => setType(e.target.value as QuestionType)}>
+                {QUESTION_TYPES.map(t => <option key={t} value={t}>{QUESTION_TYPE_LABELS[t]}</option>)}
+              </select>
+              <Input type="number" min="0" step="any" placeholder="Points" value={form.points} onChange={e => setForm({ ...form, points: e.target.value })} />
+            </div>
+            <Textarea placeholder="Question" value={form.prompt} onChange={e => setForm({ ...form, prompt: e.target.value })} required />
+            {form.type === 'short_answer' ? (
+              <Textarea placeholder="Model answer (shown to graders)" value={form.modelAnswer} onChange={e => setForm({ ...form, modelAnswer: e.target.value })} />
+            ) : (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">{form.type === 'multi_select' ? 'Tick every correct option' : 'Pick the correct option'}</p>
+                {form.options.map((o, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input
+                      type={form.type === 'multi_select' ? 'checkbox' : 'radio'}
+                      name="correct"
+                      checked={form.correct.includes(i)}
+                      onChange={() => toggleCorrect(i)}
+                    />
+                    <Input placeholder={`Option ${i + 1}`} value={o} onChange={e => setOption(i, e.target.value)} disabled={form.type === 'true_false'} />
+                    {form.type !== 'true_false' && form.options.length > 2 && (
+                      <Button size="sm" type="button" variant="ghost" onClick={() => removeOption(i)}>Remove</Button>
+                    )}
+                  </div>
+                ))}
+                {form.type !== 'true_false' && (
+                  <Button size="sm" type="button" variant="outline" onClick={() => setForm({ ...form, options: [...form.options, ''] })}>Add option</Button>
+                )}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button size="sm" type="submit" disabled={saveMutation.isPending}>{editing ? 'Update question' : 'Add question'}</Button>
+              {editing && <Button size="sm" type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
+            </div>
+          </form>
+
+          {/* Questions */}
+          <div className="space-y-2">
+            {questions.map((q, n) => (
+              <div key={q.id} className="p-3 bg-muted rounded flex justify-between gap-4">
+                <div className="min-w-0 text-sm">
+                  <p className="font-medium">{n + 1}. {q.prompt}</p>
+                  <p className="text-xs text-muted-foreground">{QUESTION_TYPE_LABELS[q.type]} · {q.points} pts</p>
+                  {q.options.map((o, i) => (
+                    <p key={i} className={cn(q.correct.includes(i) && 'text-success font-medium')}>{q.correct.includes(i) ? '✓' : '·'} {o}</p>
+                  ))}
+                  {q.model_answer && <p className="text-muted-foreground">Model answer: {q.model_answer}</p>}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button size="sm" variant="outline" onClick={() => startEdit(q)}>Edit</Button>
+                  <Button size="sm" variant="destructive" onClick={() => deleteMutation.mutate(q, { onSuccess: () => toast.success('Question deleted') })}>Delete</Button>
+                </div>
+              </div>
+            ))}
+            {questions.length === 0 && <p className="text-muted-foreground">No questions in this bank yet</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QuestionBanks;
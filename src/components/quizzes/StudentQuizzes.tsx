@@ -0,0 +1,61 @@
+/**
+ * Student Quizzes - Quizzes in your courses with their window, your attempt and score
+ */
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { courseLabel } from '@/lib/courses';
+import { quizWindow } from '@/lib/quizzes';
+import { Quiz, useMyQuizAttempts, useQuizzes, useStartQuiz } from '@/repositories/quizzes';
+import { Button } from '@/components/ui/button';
+
+const StudentQuizzes = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data: quizzes = [] } = useQuizzes();
+  const { data: attempts = {} } = useMyQuizAttempts(user?.id);
+  const startMutation = useStartQuiz();
+
+  const start = (quiz: Quiz) => {
+    if (!attempts[quiz.id] && !confirm(`Start "${quiz.title}"? You have ${quiz.duration_minutes} minutes once it starts.`)) return;
+    startMutation.mutate(quiz, { onSuccess: () => navigate(`/quizzes/${quiz.id}/take`) });
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-lg shadow">
+      <h2 className="text-xl font-semibold mb-4">Quizzes</h2>
+      <div className="space-y-2">
+        {quizzes.map(q => {
+          const attempt = attempts[q.id];
+          const state = quizWindow(q);
+          return (
+            <div key={q.id} className="p-3 bg-muted rounded flex justify-between items-center gap-4">
+              <div className="min-w-0">
+                <h3 className="font-medium">{q.title}</h3>
+                <p className="text-sm text-muted-foreground">
+                  {courseLabel(q.course)} · {q.duration_minutes} min · {state === 'upcoming' ? `Opens ${format(new Date(q.opens_at), 'PPp')}` : `Closes ${format(new Date(q.closes_at), 'PPp')}`}
+                </p>
+              </div>
+              <div className="shrink-0 flex items-center gap-2 text-sm">
+                {attempt?.status === 'graded' && <span className="font-medium">{attempt.score} / {attempt.total}</span>}
+                {attempt?.status === 'submitted' && <span className="text-muted-foreground">Awaiting grading</span>}
+                {attempt && attempt.status !== 'in_progress' && (
+                  <Button size="sm" variant="outline" onClick={() => navigate(`/quizzes/${q.id}/take`)}>Review</Button>
+                )}
+                {attempt?.status === 'in_progress' && new Date(attempt.deadline) > new Date() && (
+                  <Button size="sm" onClick={() => start(q)} disabled={startMutation.isPending}>Resume</Button>
+                )}
+                {attempt?.status === 'in_progress' && new Date(attempt.deadline) <= new Date() && <span className="text-muted-foreground">Time up · submitting</span>}
+                {!attempt && state === 'open' && <Button size="sm" onClick={() => start(q)} disabled={startMutation.isPending}>Start</Button>}
+                {!attempt && state === 'closed' && <span className="text-destructive">Missed</span>}
+              </div>
+            </div>
+          );
+        })}
+        {quizzes.length === 0 && <p className="text-muted-foreground">No quizzes</p>}
+      </div>
+    </div>
+  );
+};
+
+export default StudentQuizzes;
@@ -0,0 +1,155 @@
+/**
+ * Teacher Quizzes - Schedule timed quizzes drawn from a question bank
+ */
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { courseLabel } from '@/lib/courses';
+import { quizWindow } from '@/lib/quizzes';
+import { useMyCourses } from '@/repositories/courses';
+import { useQuestionBanks } from '@/repositories/question-banks';
+import { Quiz, useDeleteQuiz, useQuizzes, useSaveQuiz } from '@/repositories/quizzes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+const emptyForm = {
+  title: '', courseId: '', bankId: '', questionCount: '', duration: '20', opensAt: '', closesAt: '', shuffleQuestions: true, shuffleOptions: true,
+};
+
+const toLocalInput = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+const TeacherQuizzes = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { courses } = useMyCourses();
+  const courseIds = courses.map(c => c.id);
+  const { data: banks = [] } = useQuestionBanks(courseIds);
+  const { data: quizzes = [] } = useQuizzes(courseIds);
+  const saveMutation = useSaveQuiz();
+  const deleteMutation = useDeleteQuiz();
+  const [form, setForm] = useState(emptyForm);
+  const [editing, setEditing] = useState<Quiz | null>(null);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditing(null);
+  };
+
+  const startEdit = (q: Quiz) => {
+    setEditing(q);
+    setForm({
+      title: q.title,
+      courseId: q.course_id,
+      bankId: q.bank_id,
+      questionCount: q.question_count?.toString() ?? '',
+      duration: q.duration_minutes.toString(),
+      opensAt: toLocalInput(q.opens_at),
+      closesAt: toLocalInput(q.closes_at),
+      shuffleQuestions: q.shuffle_questions,
+      shuffleOptions: q.shuffle_options,
+    });
+  };
+
+  const saveQuiz = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !form.courseId || !form.bankId) return toast.error('Select a course and a question bank');
+    if (form.closesAt <= form.opensAt) return toast.error('The quiz must close after it opens');
+    const values = {
+      title: form.title.trim(),
+      course_id: form.courseId,
+      bank_id: form.bankId,
+      question_count: form.questionCount ? Number(form.questionCount) : null,
+      duration_minutes: Number(form.duration),
+      opens_at: new Date(form.opensAt).toISOString(),
+      closes_at: new Date(form.closesAt).toISOString(),
+      shuffle_questions: form.shuffleQuestions,
+      shuffle_options: form.shuffleOptions,
+    };
+    // Changes only reach attempts started afterwards
+    saveMutation.mutate({ teacherId: user.id, editing, values }, {
+      onSuccess: () => {
+        toast.success(editing ? 'Quiz updated' : 'Quiz scheduled');
+        resetForm();
+      },
+    });
+  };
+
+  const deleteQuiz = (q: Quiz) => {
+    if (!confirm(`Delete "${q.title}", every attempt at it and any scores it published to results?`)) return;
+    if (editing?.id === q.id) resetForm();
+    deleteMutation.mutate(q, { onSuccess: () => toast.success('Quiz deleted') });
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-lg shadow space-y-4">
+      <h2 className="text-xl font-semibold">Quizzes</h2>
+
+      <form onSubmit={saveQuiz} className="space-y-2 p-3 bg-muted rounded">
+        <Input placeholder="Title" value={form.title} onChange={e => setForm({ ...form, title: e.target.value })} required />
+        <div className="grid sm:grid-cols-2 gap-2">
+          <select className="w-full p-2 border rounded bg-background" value={form.courseId} onChange={e => setForm({ ...form, courseId: e.target.value, bankId: '' })}>
+            <option value="">Select course</option>
+            {courses.map(c => <option key={c.id} value={c.id}>{courseLabel(c)}</option>)}
+          </select>
+          <select className="w-full p-2 border rounded bg-background" value={form.bankId} onChange={e => setForm({ ...form, bankId: e.target.value })}>
+            <option value="">Select question bank</option>
+            {banks.filter(b => b.course_id === form.courseId).map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+          </select>
+          <div>
+            <Label>Opens</Label>
+            <Input type="datetime-local" value={form.opensAt} onChange={e => setForm({ ...form, opensAt: e.target.value })} required />
+          </div>
+          <div>
+            <Label>Closes</Label>
+            <Input type="datetime-local" value={form.closesAt} onChange={e => setForm({ ...form, closesAt: e.target.value })} required />
+          </div>
+          <div>
+            <Label>Time limit (minutes)</Label>
+            <Input type="number" min="1" value={form.duration} onChange={e => setForm({ ...form, duration: e.target.value })} required />
+          </div>
+          <div>
+            <Label>Questions per attempt</Label>
+            <Input type="number" min="1" placeholder="All in the bank" value={form.questionCount} onChange={e => setForm({ ...form, questionCount: e.target.value })} />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={form.shuffleQuestions} onChange={e => setForm({ ...form, shuffleQuestions: e.target.checked })} />
+          Shuffle question order
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={form.shuffleOptions} onChange={e => setForm({ ...form, shuffleOptions: e.target.checked })} />
+          Shuffle answer options
+        </label>
+        <div className="flex gap-2">
+          <Button size="sm" type="submit" disabled={saveMutation.isPending}>{editing ? 'Update' : 'Schedule'}</Button>
+          {editing && <Button size="sm" type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
+        </div>
+      </form>
+
+      <div className="space-y-2">
+        {quizzes.map(q => (
+          <div key={q.id} className="p-3 bg-muted rounded flex justify-between gap-4">
+            <div className="min-w-0">
+              <h3 className="font-medium">{q.title}</h3>
+              <p className="text-sm text-muted-foreground">
+                {courseLabel(q.course)} · {format(new Date(q.opens_at), 'PPp')} – {format(new Date(q.closes_at), 'PPp')} · {q.duration_minutes} min
+              </p>
+              <p className="text-xs capitalize text-muted-foreground">{quizWindow(q)}{q.publish_results && ' · published to results'}</p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button size="sm" onClick={() => navigate(`/quizzes/${q.id}/results`)}>Results</Button>
+              <Button size="sm" variant="outline" onClick={() => startEdit(q)}>Edit</Button>
+              <Button size="sm" variant="destructive" onClick={() => deleteQuiz(q)}>Delete</Button>
+            </div>
+          </div>
+        ))}
+        {quizzes.length === 0 && <p className="text-muted-foreground">No quizzes</p>}
+      </div>
+    </div>
+  );
+};
+
+export default TeacherQuizzes;
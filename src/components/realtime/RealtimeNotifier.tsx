@@ -0,0 +1,38 @@
+/**
+ * Realtime Notifier - App-wide toasts for new announcements, returned grades and new results
+ */
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRealtime } from '@/hooks/use-realtime';
+import { assignmentKeys, fetchAssignment } from '@/repositories/assignments';
+import { toast } from 'sonner';
+
+const RealtimeNotifier = () => {
+  const { user, profile } = useAuth();
+  const queryClient = useQueryClient();
+  const isStudent = profile?.role === 'student';
+  const ownRows = user ? `student_id=eq.${user.id}` : undefined;
+
+  // RLS decides which inserts reach this client, so every event here is meant for us
+  useRealtime('announcements', payload => {
+    if (payload.eventType !== 'INSERT' || payload.new.teacher_id === user?.id) return;
+    toast.info(`New announcement: ${payload.new.title}`);
+  }, { enabled: !!user });
+
+  // Students only see a grade once the teacher returns it
+  useRealtime('assignment_submissions', async payload => {
+    if (payload.eventType !== 'UPDATE' || payload.new.status !== 'returned' || payload.old.status === 'returned') return;
+    const id = payload.new.assignment_id;
+    const assignment = await queryClient.fetchQuery({ queryKey: assignmentKeys.detail(id), queryFn: () => fetchAssignment(id) }).catch(() => null);
+    toast.success(`${assignment?.title ?? 'An assignment'} was graded: ${payload.new.grade}`);
+  }, { filter: ownRows, enabled: isStudent && !!ownRows });
+
+  useRealtime('results', payload => {
+    if (payload.eventType === 'DELETE') return;
+    toast.info(`${payload.eventType === 'INSERT' ? 'New' : 'Updated'} result: ${payload.new.subject} ${payload.new.exam_type}`);
+  }, { filter: ownRows, enabled: isStudent && !!ownRows });
+
+  return null;
+};
+
+export default RealtimeNotifier;
@@ -0,0 +1,45 @@
+/**
+ * Rubric Grid - One row per criterion with its performance levels; click a level to pick it while grading
+ */
+import { rubricMaxPoints, rubricTotal, ScoredCriterion } from '@/lib/rubrics';
+import { cn } from '@/lib/utils';
+
+type Props = {
+  scores: ScoredCriterion[];
+  // Read-only when left out
+  onSelect?: (criterion: number, level: number) => void;
+};
+
+const RubricGrid = ({ scores, onSelect }: Props) => (
+  <div className="space-y-2">
+    {scores.map((c, ci) => (
+      <div key={ci} className="grid sm:grid-cols-4 gap-2 text-sm">
+        <div>
+          <p className="font-medium">{c.title}</p>
+          {c.description && <p className="text-xs text-muted-foreground">{c.description}</p>}
+        </div>
+        <div className="sm:col-span-3 flex flex-wrap gap-2">
+          {c.levels.map((l, li) => (
+            <button
+              key={li}
+              type="button"
+              disabled={!onSelect}
+              onClick={() => onSelect?.(ci, li)}
+              className={cn(
+                'flex-1 min-w-24 p-2 rounded border text-left',
+                c.selected === li ? 'bg-primary text-primary-foreground border-primary' : 'bg-background',
+                onSelect && c.selected !== li && 'hover:bg-muted',
+              )}
+            >
+              <span className="block font-medium">{l.label}</span>
+              <span className="text-xs">{l.points} pts</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    ))}
+    <p className="text-sm font-medium text-right">Total: {rubricTotal(scores)} / {rubricMaxPoints(scores)}</p>
+  </div>
+);
+
+export default RubricGrid;
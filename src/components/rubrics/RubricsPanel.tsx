@@ -0,0 +1,146 @@
+/**
+ * Rubrics Panel - Teachers build reusable rubrics of criteria and performance levels
+ */
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { rubricMaxPoints } from '@/lib/rubrics';
+import { Rubric, useDeleteRubric, useRubrics, useSaveRubric } from '@/repositories/rubrics';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+type LevelForm = { label: string; points: string };
+type CriterionForm = { title: string; description: string; levels: LevelForm[] };
+
+const defaultLevels = (): LevelForm[] => [
+  { label: 'Excellent', points: '4' },
+  { label: 'Good', points: '3' },
+  { label: 'Fair', points: '2' },
+  { label: 'Poor', points: '1' },
+];
+
+const emptyCriterion = (): CriterionForm => ({ title: '', description: '', levels: defaultLevels() });
+
+const RubricsPanel = () => {
+  const { user } = useAuth();
+  const { data: rubrics = [] } = useRubrics();
+  const saveMutation = useSaveRubric();
+  const deleteMutation = useDeleteRubric();
+  const [name, setName] = useState('');
+  const [criteria, setCriteria] = useState<CriterionForm[]>([emptyCriterion()]);
+  const [editing, setEditing] = useState<Rubric | null>(null);
+
+  const resetForm = () => {
+    setName('');
+    setCriteria([emptyCriterion()]);
+    setEditing(null);
+  };
+
+  const startEdit = (r: Rubric) => {
+    setEditing(r);
+    setName(r.name);
+    setCriteria(r.criteria.map(c => ({
+      title: c.title,
+      description: c.description ?? '',
+      levels: c.levels.map(l => ({ label: l.label, points: l.points.toString() })),
+    })));
+  };
+
+  // Start a new rubric from an existing one, e.g. a colleague's
+  const copy = (r: Rubric) => {
+    startEdit(r);
+    setEditing(null);
+    setName(`${r.name} (copy)`);
+  };
+
+  const updateCriterion = (index: number, values: Partial<CriterionForm>) =>
+    setCriteria(criteria.map((c, i) => (i === index ? { ...c, ...values } : c)));
+
+  const updateLevel = (index: number, level: number, values: Partial<LevelForm>) =>
+    updateCriterion(index, { levels: criteria[index].levels.map((l, i) => (i === level ? { ...l, ...values } : l)) });
+
+  const saveRubric = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (criteria.length === 0) return toast.error('Add at least one criterion');
+    if (criteria.some(c => !c.title.trim() || c.levels.length === 0)) return toast.error('Every criterion needs a title and at least one level');
+    if (criteria.some(c => c.levels.some(l => !l.label.trim() || l.points === '' || isNaN(Number(l.points)) || Number(l.points) < 0))) {
+      return toast.error('Every level needs a label and points of 0 or more');
+    }
+    const values = {
+      name: name.trim(),
+      criteria: criteria.map(c => ({
+        title: c.title.trim(),
+        ...(c.description.trim() && { description: c.description.trim() }),
+        levels: c.levels.map(l => ({ label: l.label.trim(), points: Number(l.points) })),
+      })),
+    };
+    saveMutation.mutate({ teacherId: user.id, editing, values }, {
+      onSuccess: () => {
+        toast.success(editing ? 'Rubric updated' : 'Rubric created');
+        resetForm();
+      },
+    });
+  };
+
+  const deleteRubric = (r: Rubric) => {
+    if (!confirm(`Delete "${r.name}"? Assignments using it go back to a plain numeric grade.`)) return;
+    if (editing?.id === r.id) resetForm();
+    deleteMutation.mutate(r, { onSuccess: () => toast.success('Rubric deleted') });
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-lg shadow">
+      <h2 className="text-xl font-semibold mb-4">Rubrics</h2>
+
+      <form onSubmit={saveRubric} className="space-y-2 mb-4 p-3 bg-muted rounded">
+        <Input placeholder="Rubric name" value={name} onChange={e => setName(e.target.value)} required />
+        {criteria.map((c, ci) => (
+          <div key={ci} className="space-y-2 p-2 border rounded bg-background">
+            <div className="flex gap-2">
+              <Input placeholder="Criterion (e.g. Research)" value={c.title} onChange={e => updateCriterion(ci, { title: e.target.value })} />
+              <Button size="sm" type="button" variant="ghost" className="h-10" onClick={() => setCriteria(criteria.filter((_, i) => i !== ci))}>Remove</Button>
+            </div>
+            <Input placeholder="Description (optional)" value={c.description} onChange={e => updateCriterion(ci, { description: e.target.value })} />
+            {c.levels.map((l, li) => (
+              <div key={li} className="flex gap-2">
+                <Input placeholder="Level" value={l.label} onChange={e => updateLevel(ci, li, { label: e.target.value })} />
+                <Input type="number" min="0" step="any" placeholder="Points" className="w-28" value={l.points} onChange={e => updateLevel(ci, li, { points: e.target.value })} />
+                <Button size="sm" type="button" variant="ghost" className="h-10" onClick={() => updateCriterion(ci, { levels: c.levels.filter((_, i) => i !== li) })}>×</Button>
+              </div>
+            ))}
+            <Button size="sm" type="button" variant="outline" onClick={() => updateCriterion(ci, { levels: [...c.levels, { label: '', points: '' }] })}>Add level</Button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Button size="sm" type="button" variant="outline" onClick={() => setCriteria([...criteria, emptyCriterion()])}>Add criterion</Button>
+          <Button size="sm" type="submit" disabled={saveMutation.isPending}>{editing ? 'Update' : 'Create'}</Button>
+          {(editing || name) && <Button size="sm" type="button" variant="outline" onClick={resetForm}>Cancel</Button>}
+        </div>
+      </form>
+
+      <div className="space-y-2">
+        {rubrics.map(r => (
+          <div key={r.id} className="p-3 bg-muted rounded flex justify-between gap-4">
+            <div className="min-w-0">
+              <h3 className="font-medium">{r.name}</h3>
+              <p className="text-sm text-muted-foreground">{r.criteria.length} criteria · {rubricMaxPoints(r.criteria)} points</p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button size="sm" variant="outline" onClick={() => copy(r)}>Copy</Button>
+              {r.teacher_id === user?.id && (
+                <>
+                  <Button size="sm" variant="outline" onClick={() => startEdit(r)}>Edit</Button>
+                  <Button size="sm" variant="destructive" onClick={() => deleteRubric(r)}>Delete</Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+        {rubrics.length === 0 && <p className="text-muted-foreground">No rubrics</p>}
+      </div>
+    </div>
+  );
+};
+
+export default RubricsPanel;
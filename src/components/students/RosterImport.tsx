@@ -0,0 +1,157 @@
+/**
+ * Roster Import - Upload a CSV of students, preview validation errors, then invite them in bulk
+ */
+import { useState } from 'react';
+import { z } from 'zod';
+import { parseCsv } from '@/lib/csv';
+import { courseLabel } from '@/lib/courses';
+import { Course } from '@/repositories/courses';
+import { ImportOutcome, ImportRow, ROSTER_COLUMNS, useImportStudents } from '@/repositories/student-import';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+type PreviewRow = ImportRow & { line: number; errors: string[] };
+
+const rowSchema = z.object({
+  full_name: z.string().trim().min(1, 'Name is required'),
+  email: z.string().trim().email('Invalid email'),
+  roll_number: z.string().trim().max(30, 'Roll number is too long'),
+  course: z.string().trim().max(100, 'Course is too long'),
+}).refine(r => !r.roll_number || r.course, { message: 'Course is required with a roll number' });
+
+// Header names are matched loosely so exports from other tools import as-is
+const HEADER_ALIASES: Record<string, keyof ImportRow> = {
+  name: 'full_name', full_name: 'full_name', email: 'email', roll_number: 'roll_number', roll: 'roll_number', course: 'course',
+};
+
+const toPreview = (text: string): PreviewRow[] | string => {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return 'The file is empty';
+  const columns = header.map(h => HEADER_ALIASES[h.trim().toLowerCase().replace(/\s+/g, '_')]);
+  if (!columns.includes('full_name') || !columns.includes('email')) return `The first row must name the columns: ${ROSTER_COLUMNS.join(', ')}`;
+
+  const seenEmails = new Set<string>();
+  const seenRolls = new Set<string>();
+  return lines.map((cells, i) => {
+    const row: ImportRow = { full_name: '', email: '', roll_number: '', course: '' };
+    columns.forEach((key, c) => { if (key) row[key] = cells[c]?.trim() ?? ''; });
+    const parsed = rowSchema.safeParse(row);
+    const errors = parsed.success ? [] : parsed.error.issues.map(issue => issue.message);
+
+    // Duplicates inside the file would fail one by one on the server
+    const email = row.email.toLowerCase();
+    const roll = row.roll_number && `${row.course}|${row.roll_number}`;
+    if (email && seenEmails.has(email)) errors.push('Duplicate email in file');
+    if (roll && seenRolls.has(roll)) errors.push('Duplicate roll number in this course');
+    seenEmails.add(email);
+    if (roll) seenRolls.add(roll);
+
+    return { ...row, line: i + 2, errors };
+  });
+};
+
+const RosterImport = ({ courses, onClose }: { courses: Course[]; onClose: () => void }) => {
+  const importMutation = useImportStudents();
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [courseId, setCourseId] = useState('');
+  const [outcomes, setOutcomes] = useState<ImportOutcome[] | null>(null);
+
+  const readFile = async (file: File | undefined) => {
+    setOutcomes(null);
+    if (!file) return setRows([]);
+    const preview = toPreview(await file.text());
+    if (typeof preview === 'string') {
+      setRows([]);
+      return toast.error(preview);
+    }
+    setRows(preview);
+  };
+
+  const valid = rows.filter(r => r.errors.length === 0);
+
+  const runImport = () => {
+    const students = valid.map(({ full_name, email, roll_number, course }) => ({ full_name, email, roll_number, course }));
+    importMutation.mutate({ students, courseId: courseId || undefined }, {
+      onSuccess: results => {
+        setOutcomes(results);
+        setRows([]);
+        toast.success(`Imported ${results.filter(r => r.status !== 'error').length} of ${results.length} students`);
+      },
+    });
+  };
+
+  return (
+    <div className="p-3 bg-muted rounded space-y-3 mb-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-medium">Import students</h3>
+        <Button size="sm" variant="ghost" onClick={onClose}>Close</Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        CSV with a header row: {ROSTER_COLUMNS.join(', ')}. New addresses receive an invite email; existing students are reused.
+      </p>
+      <div className="grid sm:grid-cols-2 gap-2">
+        <Input type="file" accept=".csv,text/csv" onChange={e => readFile(e.target.files?.[0])} />
+        <select className="w-full p-2 border rounded bg-background" value={courseId} onChange={e => setCourseId(e.target.value)}>
+          <option value="">Don't enroll in a course</option>
+          {courses.map(c => <option key={c.id} value={c.id}>Enroll in {courseLabel(c)}</option>)}
+        </select>
+      </div>
+
+      {/* Preview */}
+      {rows.length > 0 && (
+        <>
+          <div className="max-h-64 overflow-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="p-2">Line</th>
+                  <th className="p-2">Name</th>
+                  <th className="p-2">Email</th>
+                  <th className="p-2">Roll</th>
+                  <th className="p-2">Course</th>
+                  <th className="p-2">Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r => (
+                  <tr key={r.line} className={cn('border-b last:border-0', r.errors.length > 0 && 'text-destructive')}>
+                    <td className="p-2">{r.line}</td>
+                    <td className="p-2">{r.full_name}</td>
+                    <td className="p-2">{r.email}</td>
+                    <td className="p-2">{r.roll_number || '—'}</td>
+                    <td className="p-2">{r.course || '—'}</td>
+                    <td className="p-2">{r.errors.join('; ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex items-center gap-4">
+            <Button size="sm" onClick={runImport} disabled={valid.length === 0 || importMutation.isPending}>
+              {importMutation.isPending ? 'Importing...' : `Import ${valid.length} students`}
+            </Button>
+            {valid.length < rows.length && (
+              <span className="text-sm text-destructive">{rows.length - valid.length} rows with problems will be skipped</span>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Server results */}
+      {outcomes && (
+        <div className="text-sm space-y-1">
+          <p>
+            {outcomes.filter(o => o.status === 'invited').length} invited · {outcomes.filter(o => o.status === 'existing').length} already had accounts · {outcomes.filter(o => o.status === 'error').length} failed
+          </p>
+          {outcomes.filter(o => o.status === 'error').map(o => (
+            <p key={o.email} className="text-destructive">{o.email}: {o.message}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RosterImport;
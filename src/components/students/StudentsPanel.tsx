@@ -0,0 +1,52 @@
+/**
+ * Students Panel - Students in the teacher's courses, with CSV import and export
+ */
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { courseLabel } from '@/lib/courses';
+import { downloadCsv } from '@/lib/csv';
+import { useMyCourses } from '@/repositories/courses';
+import { useCoursesEnrollments } from '@/repositories/enrollments';
+import { ROSTER_COLUMNS } from '@/repositories/student-import';
+import { Button } from '@/components/ui/button';
+import RosterImport from '@/components/students/RosterImport';
+
+const StudentsPanel = () => {
+  const { courses } = useMyCourses();
+  const { data: enrollments = [] } = useCoursesEnrollments(courses.map(c => c.id));
+  const [importing, setImporting] = useState(false);
+  const students = enrollments.filter(e => e.student);
+
+  // Same columns as the import, one line per student even if they share several courses
+  const exportCsv = () => {
+    const unique = [...new Map(students.map(e => [e.student.id, e.student])).values()];
+    downloadCsv(`students-${format(new Date(), 'yyyy-MM-dd')}.csv`, [
+      [...ROSTER_COLUMNS],
+      ...unique.map(s => [s.full_name, s.email, s.roll_number, s.course]),
+    ]);
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Students</h2>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setImporting(true)} disabled={importing}>Import CSV</Button>
+          <Button size="sm" variant="outline" onClick={exportCsv} disabled={students.length === 0}>Export CSV</Button>
+        </div>
+      </div>
+      {importing && <RosterImport courses={courses} onClose={() => setImporting(false)} />}
+      <div className="space-y-2">
+        {students.map(({ id, course_id, student: s }) => (
+          <div key={id} className="p-3 bg-muted rounded">
+            <p className="font-medium">{s.full_name}</p>
+            <p className="text-sm text-muted-foreground">{s.email} · {courseLabel(courses.find(c => c.id === course_id))}</p>
+          </div>
+        ))}
+        {students.length === 0 && <p className="text-muted-foreground">No students</p>}
+      </div>
+    </div>
+  );
+};
+
+export default StudentsPanel;
@@ -2,53 +2,55 @@
  * Simple Auth Context - Manages user login state
  */
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { User } from '@supabase/supabase-js';
+import { Profile, profileKeys, useProfile } from '@/repositories/profiles';
 
 type AuthContextType = {
   user: User | null;
   loading: boolean;
-  profile: { role: string; full_name: string } | null;
+  profile: Profile | null;
   signOut: () => Promise<void>;
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
-  const [profile, setProfile] = useState<{ role: string; full_name: string } | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  const { data: profile, isLoading: profileLoading } = useProfile(user?.id);
 
   useEffect(() => {
     // Get initial session
     supabase.auth.getSession().then(({ data }) => {
       setUser(data.session?.user ?? null);
-      if (data.session?.user) fetchProfile(data.session.user.id);
-      else setLoading(false);
+      setSessionLoading(false);
     });
 
-    // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    // Listen for auth changes; drop cached data so the next user never sees the last one's
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT') queryClient.clear();
+      // A confirmed email change is copied onto the profile by the database
+      if (event === 'USER_UPDATED') queryClient.invalidateQueries({ queryKey: profileKeys.all });
+      // Recovery links sign the user in; send them to pick a new password
+      if (event === 'PASSWORD_RECOVERY') navigate('/reset-password', { replace: true });
       setUser(session?.user ?? null);
-      if (session?.user) fetchProfile(session.user.id);
-      else { setProfile(null); setLoading(false); }
+      setSessionLoading(false);
     });
 
     return () => subscription.unsubscribe();
-  }, []);
-
-  const fetchProfile = async (userId: string) => {
-    const { data } = await supabase.from('profiles').select('role, full_name').eq('id', userId).single();
-    setProfile(data);
-    setLoading(false);
-  };
+  }, [queryClient, navigate]);
 
   const signOut = async () => {
     await supabase.auth.signOut();
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, profile, signOut }}>
+    <AuthContext.Provider value={{ user, loading: sessionLoading || (!!user && profileLoading), profile: profile ?? null, signOut }}>
       {children}
     </AuthContext.Provider>
   );
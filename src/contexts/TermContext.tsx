@@ -0,0 +1,44 @@
+/**
+ * Term Context - The term the app is scoped to, chosen in the header
+ */
+import { createContext, useContext, useState, ReactNode } from 'react';
+import { Term, useTerms } from '@/repositories/terms';
+
+type TermContextType = {
+  terms: Term[];
+  activeTerm: Term | null;
+  // Empty means every term
+  termId: string;
+  term: Term | null;
+  setTermId: (termId: string) => void;
+};
+
+const STORAGE_KEY = 'selected-term';
+
+const TermContext = createContext<TermContextType | undefined>(undefined);
+
+export const TermProvider = ({ children }: { children: ReactNode }) => {
+  const { data: terms = [] } = useTerms();
+  const [selected, setSelected] = useState(() => localStorage.getItem(STORAGE_KEY));
+  const activeTerm = terms.find(t => t.status === 'active') ?? null;
+
+  // Until the user picks one (or after their pick is deleted) the active term is used
+  const termId = selected !== null && (selected === '' || terms.some(t => t.id === selected)) ? selected : activeTerm?.id ?? '';
+
+  const setTermId = (id: string) => {
+    localStorage.setItem(STORAGE_KEY, id);
+    setSelected(id);
+  };
+
+  return (
+    <TermContext.Provider value={{ terms, activeTerm, termId, term: terms.find(t => t.id === termId) ?? null, setTermId }}>
+      {children}
+    </TermContext.Provider>
+  );
+};
+
+export const useTerm = () => {
+  const context = useContext(TermContext);
+  if (!context) throw new Error('useTerm must be used within TermProvider');
+  return context;
+};
@@ -0,0 +1,59 @@
+/**
+ * useCalendarEvents - Classes, exams, assignment deadlines, fee due dates and holidays between two dates
+ */
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { CalendarEvent, classEvents, dateKey, holidayEvents } from '@/lib/calendar';
+import { useAssignments, useTeacherAssignments } from '@/repositories/assignments';
+import { useStudentPayments } from '@/repositories/payments';
+import { useStudentResults, useTeacherExams } from '@/repositories/results';
+import { useHolidays } from '@/repositories/terms';
+import { useMyTimetable } from '@/repositories/timetable';
+
+// Students see their own; teachers see the classes, exams and assignments they run
+export const useCalendarEvents = (from: Date, to: Date) => {
+  const { user, profile } = useAuth();
+  const isStudent = profile?.role === 'student';
+  const isTeacher = profile?.role === 'teacher';
+
+  const { data: slots = [] } = useMyTimetable();
+  const { data: holidays = [] } = useHolidays();
+  const { data: studentResults = [] } = useStudentResults(isStudent ? user?.id : undefined);
+  const { data: teacherExams = [] } = useTeacherExams(isTeacher ? user?.id : undefined);
+  const { data: studentAssignments = [] } = useAssignments(isStudent);
+  const { data: teacherAssignments = [] } = useTeacherAssignments(isTeacher ? user?.id : undefined);
+  const { data: payments = [] } = useStudentPayments(isStudent ? user?.id : undefined);
+
+  return useMemo(() => {
+    const start = dateKey(from);
+    const end = dateKey(to);
+    const inRange = (e: CalendarEvent) => e.date >= start && e.date <= end;
+
+    // Results hold one row per student, so a student's exams are de-duplicated the same way as a teacher's
+    const exams = [...new Map((isStudent ? studentResults : teacherExams).map(r => [`${r.subject}|${r.exam_type}|${r.exam_date}`, r])).values()];
+
+    const events: CalendarEvent[] = [
+      ...holidayEvents(holidays, from, to),
+      ...classEvents(slots, holidays, from, to),
+      ...exams.map(r => ({ id: `exam-${r.subject}-${r.exam_type}-${r.exam_date}`, kind: 'exam' as const, title: `${r.exam_type}: ${r.subject}`, date: r.exam_date })),
+      ...(isStudent ? studentAssignments : teacherAssignments).filter(a => a.due_date).map(a => ({
+        id: `assignment-${a.id}`,
+        kind: 'assignment' as const,
+        title: `Due: ${a.title}`,
+        date: dateKey(new Date(a.due_date)),
+        time: format(new Date(a.due_date), 'HH:mm'),
+        detail: a.course?.code,
+      })),
+      ...payments.filter(p => p.status !== 'paid').map(p => ({
+        id: `fee-${p.id}`,
+        kind: 'fee' as const,
+        title: `Fee due: ${p.payment_type}`,
+        date: p.due_date,
+        detail: `Amount ${p.amount}`,
+      })),
+    ];
+
+    return events.filter(inRange).sort((a, b) => a.date.localeCompare(b.date) || (a.time ?? '').localeCompare(b.time ?? ''));
+  }, [from, to, isStudent, holidays, slots, studentResults, teacherExams, studentAssignments, teacherAssignments, payments]);
+};
@@ -0,0 +1,39 @@
+/**
+ * useRealtime - Listen to database changes on a table while the component is mounted
+ */
+import { useEffect, useRef } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+// Tables added to the supabase_realtime publication by migrations
+export type RealtimeTable = 'announcements' | 'assignment_submissions' | 'notifications' | 'results';
+
+type Options = {
+  // PostgREST-style row filter, e.g. `student_id=eq.${id}`
+  filter?: string;
+  enabled?: boolean;
+};
+
+export const useRealtime = <T extends RealtimeTable>(
+  table: T,
+  onChange: (payload: RealtimePostgresChangesPayload<Tables<T>>) => void,
+  { filter, enabled = true }: Options = {},
+) => {
+  // Keep the latest callback without resubscribing on every render
+  const handler = useRef(onChange);
+  useEffect(() => {
+    handler.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const channel = supabase
+      .channel(`${table}:${filter ?? 'all'}:${crypto.randomUUID()}`)
+      .on<Tables<T>>('postgres_changes', { event: '*', schema: 'public', table, filter }, payload => handler.current(payload))
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, filter, enabled]);
+};
@@ -16,27 +16,67 @@ export type Database = {
     Tables: {
       announcements: {
         Row: {
+          course_id: string | null
           created_at: string
+          expires_at: string | null
           id: string
           message: string
+          pinned: boolean
+          publish_at: string
+          section_id: string | null
           teacher_id: string
           title: string
+          updated_at: string
         }
         Insert: {
+          course_id?: string | null
           created_at?: string
+          expires_at?: string | null
           id?: string
           message: string
+          pinned?: boolean
+          publish_at?: string
+          section_id?: string | null
           teacher_id: string
           title: string
+          updated_at?: string
         }
         Update: {
+          course_id?: string | null
           created_at?: string
+          expires_at?: string | null
           id?: string
           message?: string
+          pinned?: boolean
+          publish_at?: string
+          section_id?: string | null
           teacher_id?: string
           title?: string
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "announcements_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "announcements_section_id_fkey"
+            columns: ["section_id", "course_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id", "course_id"]
+          },
+          {
+            foreignKeyName: "announcements_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       assignment_submissions: {
         Row: {
@@ -46,6 +86,7 @@ export type Database = {
           file_url: string | null
           grade: number | null
           id: string
+          rubric_scores: Json | null
           status: string | null
           student_id: string
           submitted_at: string | null
@@ -57,6 +98,7 @@ export type Database = {
           file_url?: string | null
           grade?: number | null
           id?: string
+          rubric_scores?: Json | null
           status?: string | null
           student_id: string
           submitted_at?: string | null
@@ -68,6 +110,7 @@ export type Database = {
           file_url?: string | null
           grade?: number | null
           id?: string
+          rubric_scores?: Json | null
           status?: string | null
           student_id?: string
           submitted_at?: string | null
@@ -91,42 +134,62 @@ export type Database = {
       }
       assignments: {
         Row: {
-          course: string | null
+          course_id: string | null
           created_at: string | null
           description: string | null
           due_date: string | null
           file_name: string | null
           file_url: string | null
           id: string
+          rubric_id: string | null
           teacher_id: string
+          term_id: string | null
           title: string
           updated_at: string | null
         }
         Insert: {
-          course?: string | null
+          course_id?: string | null
           created_at?: string | null
           description?: string | null
           due_date?: string | null
           file_name?: string | null
           file_url?: string | null
           id?: string
+          rubric_id?: string | null
           teacher_id: string
+          term_id?: string | null
           title: string
           updated_at?: string | null
         }
         Update: {
-          course?: string | null
+          course_id?: string | null
           created_at?: string | null
           description?: string | null
           due_date?: string | null
           file_name?: string | null
           file_url?: string | null
           id?: string
+          rubric_id?: string | null
           teacher_id?: string
+          term_id?: string | null
           title?: string
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "assignments_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignments_rubric_id_fkey"
+            columns: ["rubric_id"]
+            isOneToOne: false
+            referencedRelation: "rubrics"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "assignments_teacher_id_fkey"
             columns: ["teacher_id"]
@@ -134,45 +197,50 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "assignments_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "terms"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      payments: {
+      attendance: {
         Row: {
-          amount: number
-          created_at: string | null
-          due_date: string
           id: string
-          paid_date: string | null
-          payment_type: string
-          semester: string | null
-          status: string | null
+          marked_at: string
+          note: string | null
+          session_id: string
+          status: Database["public"]["Enums"]["attendance_status"]
           student_id: string
         }
         Insert: {
-          amount: number
-          created_at?: string | null
-          due_date: string
           id?: string
-          paid_date?: string | null
-          payment_type: string
-          semester?: string | null
-          status?: string | null
+          marked_at?: string
+          note?: string | null
+          session_id: string
+          status?: Database["public"]["Enums"]["attendance_status"]
           student_id: string
         }
         Update: {
-          amount?: number
-          created_at?: string | null
-          due_date?: string
           id?: string
-          paid_date?: string | null
-          payment_type?: string
-          semester?: string | null
-          status?: string | null
+          marked_at?: string
+          note?: string | null
+          session_id?: string
+          status?: Database["public"]["Enums"]["attendance_status"]
           student_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "payments_student_id_fkey"
+            foreignKeyName: "attendance_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "class_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_student_id_fkey"
             columns: ["student_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -180,108 +248,1138 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      calendar_tokens: {
         Row: {
-          course: string | null
-          created_at: string | null
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_sessions: {
+        Row: {
+          course_id: string
+          created_at: string
+          held_on: string
+          id: string
+          section_id: string | null
+          teacher_id: string
+          topic: string | null
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          held_on?: string
+          id?: string
+          section_id?: string | null
+          teacher_id: string
+          topic?: string | null
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          held_on?: string
+          id?: string
+          section_id?: string | null
+          teacher_id?: string
+          topic?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_sessions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_sessions_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_sessions_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_teachers: {
+        Row: {
+          course_id: string
+          created_at: string
+          teacher_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          teacher_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          teacher_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_teachers_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_teachers_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      courses: {
+        Row: {
+          code: string
+          created_at: string
           department: string | null
-          email: string
-          full_name: string
           id: string
-          phone: string | null
-          role: Database["public"]["Enums"]["user_role"]
-          roll_number: string | null
-          updated_at: string | null
+          min_attendance: number
+          name: string
+          next_course_id: string | null
         }
         Insert: {
-          course?: string | null
-          created_at?: string | null
+          code: string
+          created_at?: string
           department?: string | null
-          email: string
-          full_name: string
-          id: string
-          phone?: string | null
-          role: Database["public"]["Enums"]["user_role"]
-          roll_number?: string | null
-          updated_at?: string | null
+          id?: string
+          min_attendance?: number
+          name: string
+          next_course_id?: string | null
         }
         Update: {
-          course?: string | null
-          created_at?: string | null
+          code?: string
+          created_at?: string
           department?: string | null
-          email?: string
-          full_name?: string
           id?: string
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          roll_number?: string | null
-          updated_at?: string | null
+          min_attendance?: number
+          name?: string
+          next_course_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "courses_next_course_id_fkey"
+            columns: ["next_course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      results: {
+      email_outbox: {
         Row: {
-          created_at: string | null
-          exam_date: string
-          exam_type: string
+          attempts: number
+          created_at: string
+          data: Json
+          dedupe_key: string | null
           id: string
-          marks_obtained: number
-          remarks: string | null
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          sent_at: string | null
+          status: Database["public"]["Enums"]["email_status"]
+          template: string
+          to_email: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          data?: Json
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["email_status"]
+          template: string
+          to_email: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          data?: Json
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["email_status"]
+          template?: string
+          to_email?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrollments: {
+        Row: {
+          course_id: string
+          created_at: string
+          id: string
+          section_id: string | null
           student_id: string
-          subject: string
-          teacher_id: string
-          total_marks: number
+          term_id: string | null
         }
         Insert: {
-          created_at?: string | null
-          exam_date: string
-          exam_type: string
+          course_id: string
+          created_at?: string
           id?: string
-          marks_obtained: number
-          remarks?: string | null
+          section_id?: string | null
           student_id: string
-          subject: string
-          teacher_id: string
-          total_marks: number
+          term_id?: string | null
         }
         Update: {
-          created_at?: string | null
-          exam_date?: string
-          exam_type?: string
+          course_id?: string
+          created_at?: string
           id?: string
-          marks_obtained?: number
-          remarks?: string | null
+          section_id?: string | null
           student_id?: string
-          subject?: string
-          teacher_id?: string
-          total_marks?: number
+          term_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "results_student_id_fkey"
+            foreignKeyName: "enrollments_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_student_id_fkey"
             columns: ["student_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "results_teacher_id_fkey"
-            columns: ["teacher_id"]
+            foreignKeyName: "enrollments_term_id_fkey"
+            columns: ["term_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "terms"
             referencedColumns: ["id"]
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      is_teacher: { Args: { user_id: string }; Returns: boolean }
+      grading_scheme: {
+        Row: {
+          bands: Json
+          best_of: Json
+          id: number
+          updated_at: string
+          weights: Json
+        }
+        Insert: {
+          bands: Json
+          best_of?: Json
+          id?: number
+          updated_at?: string
+          weights: Json
+        }
+        Update: {
+          bands?: Json
+          best_of?: Json
+          id?: number
+          updated_at?: string
+          weights?: Json
+        }
+        Relationships: []
+      }
+      holidays: {
+        Row: {
+          created_at: string
+          ends_on: string
+          id: string
+          name: string
+          starts_on: string
+        }
+        Insert: {
+          created_at?: string
+          ends_on: string
+          id?: string
+          name: string
+          starts_on: string
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string
+          id?: string
+          name?: string
+          starts_on?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          category: Database["public"]["Enums"]["notification_category"]
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          category: Database["public"]["Enums"]["notification_category"]
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          category?: Database["public"]["Enums"]["notification_category"]
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_reversals: {
+        Row: {
+          created_at: string
+          id: string
+          payment_id: string
+          previous_paid_date: string | null
+          reason: string
+          reversed_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          payment_id: string
+          previous_paid_date?: string | null
+          reason: string
+          reversed_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          payment_id?: string
+          previous_paid_date?: string | null
+          reason?: string
+          reversed_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_reversals_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_reversals_reversed_by_fkey"
+            columns: ["reversed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          due_date: string
+          id: string
+          paid_date: string | null
+          payment_type: string
+          semester: string | null
+          status: Database["public"]["Enums"]["payment_status"]
+          student_id: string
+          term_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          due_date: string
+          id?: string
+          paid_date?: string | null
+          payment_type: string
+          semester?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          student_id: string
+          term_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          due_date?: string
+          id?: string
+          paid_date?: string | null
+          payment_type?: string
+          semester?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          student_id?: string
+          term_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          active: boolean
+          approved: boolean
+          avatar_url: string | null
+          course: string | null
+          created_at: string | null
+          department: string | null
+          email: string
+          full_name: string
+          id: string
+          muted_categories: Database["public"]["Enums"]["notification_category"][]
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          roll_number: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          active?: boolean
+          approved?: boolean
+          avatar_url?: string | null
+          course?: string | null
+          created_at?: string | null
+          department?: string | null
+          email: string
+          full_name: string
+          id: string
+          muted_categories?: Database["public"]["Enums"]["notification_category"][]
+          phone?: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          roll_number?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          active?: boolean
+          approved?: boolean
+          avatar_url?: string | null
+          course?: string | null
+          created_at?: string | null
+          department?: string | null
+          email?: string
+          full_name?: string
+          id?: string
+          muted_categories?: Database["public"]["Enums"]["notification_category"][]
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          roll_number?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      question_banks: {
+        Row: {
+          course_id: string
+          created_at: string
+          id: string
+          name: string
+          teacher_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          id?: string
+          name: string
+          teacher_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          teacher_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_banks_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_banks_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      questions: {
+        Row: {
+          bank_id: string
+          correct: number[]
+          created_at: string
+          id: string
+          model_answer: string | null
+          options: string[]
+          points: number
+          prompt: string
+          type: Database["public"]["Enums"]["question_type"]
+        }
+        Insert: {
+          bank_id: string
+          correct?: number[]
+          created_at?: string
+          id?: string
+          model_answer?: string | null
+          options?: string[]
+          points?: number
+          prompt: string
+          type: Database["public"]["Enums"]["question_type"]
+        }
+        Update: {
+          bank_id?: string
+          correct?: number[]
+          created_at?: string
+          id?: string
+          model_answer?: string | null
+          options?: string[]
+          points?: number
+          prompt?: string
+          type?: Database["public"]["Enums"]["question_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_bank_id_fkey"
+            columns: ["bank_id"]
+            isOneToOne: false
+            referencedRelation: "question_banks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_answers: {
+        Row: {
+          answer_text: string | null
+          attempt_id: string
+          correct: number[]
+          id: string
+          option_order: number[]
+          options: string[]
+          points: number
+          points_awarded: number | null
+          position: number
+          prompt: string
+          question_id: string | null
+          selected: number[]
+          type: Database["public"]["Enums"]["question_type"]
+        }
+        Insert: {
+          answer_text?: string | null
+          attempt_id: string
+          correct?: number[]
+          id?: string
+          option_order?: number[]
+          options?: string[]
+          points: number
+          points_awarded?: number | null
+          position: number
+          prompt: string
+          question_id?: string | null
+          selected?: number[]
+          type: Database["public"]["Enums"]["question_type"]
+        }
+        Update: {
+          answer_text?: string | null
+          attempt_id?: string
+          correct?: number[]
+          id?: string
+          option_order?: number[]
+          options?: string[]
+          points?: number
+          points_awarded?: number | null
+          position?: number
+          prompt?: string
+          question_id?: string | null
+          selected?: number[]
+          type?: Database["public"]["Enums"]["question_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_answers_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_attempts: {
+        Row: {
+          deadline: string
+          id: string
+          quiz_id: string
+          score: number | null
+          started_at: string
+          status: Database["public"]["Enums"]["quiz_attempt_status"]
+          student_id: string
+          submitted_at: string | null
+          total: number
+        }
+        Insert: {
+          deadline: string
+          id?: string
+          quiz_id: string
+          score?: number | null
+          started_at?: string
+          status?: Database["public"]["Enums"]["quiz_attempt_status"]
+          student_id: string
+          submitted_at?: string | null
+          total?: number
+        }
+        Update: {
+          deadline?: string
+          id?: string
+          quiz_id?: string
+          score?: number | null
+          started_at?: string
+          status?: Database["public"]["Enums"]["quiz_attempt_status"]
+          student_id?: string
+          submitted_at?: string | null
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quizzes: {
+        Row: {
+          bank_id: string
+          closes_at: string
+          course_id: string
+          created_at: string
+          duration_minutes: number
+          id: string
+          opens_at: string
+          publish_results: boolean
+          question_count: number | null
+          shuffle_options: boolean
+          shuffle_questions: boolean
+          teacher_id: string
+          title: string
+        }
+        Insert: {
+          bank_id: string
+          closes_at: string
+          course_id: string
+          created_at?: string
+          duration_minutes: number
+          id?: string
+          opens_at: string
+          publish_results?: boolean
+          question_count?: number | null
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          teacher_id: string
+          title: string
+        }
+        Update: {
+          bank_id?: string
+          closes_at?: string
+          course_id?: string
+          created_at?: string
+          duration_minutes?: number
+          id?: string
+          opens_at?: string
+          publish_results?: boolean
+          question_count?: number | null
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          teacher_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quizzes_bank_id_fkey"
+            columns: ["bank_id"]
+            isOneToOne: false
+            referencedRelation: "question_banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quizzes_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quizzes_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      results: {
+        Row: {
+          course_id: string | null
+          created_at: string | null
+          exam_date: string
+          exam_type: string
+          id: string
+          marks_obtained: number
+          quiz_id: string | null
+          remarks: string | null
+          student_id: string
+          subject: string
+          teacher_id: string
+          term_id: string | null
+          total_marks: number
+        }
+        Insert: {
+          course_id?: string | null
+          created_at?: string | null
+          exam_date: string
+          exam_type: string
+          id?: string
+          marks_obtained: number
+          quiz_id?: string | null
+          remarks?: string | null
+          student_id: string
+          subject: string
+          teacher_id: string
+          term_id?: string | null
+          total_marks: number
+        }
+        Update: {
+          course_id?: string | null
+          created_at?: string | null
+          exam_date?: string
+          exam_type?: string
+          id?: string
+          marks_obtained?: number
+          quiz_id?: string | null
+          remarks?: string | null
+          student_id?: string
+          subject?: string
+          teacher_id?: string
+          term_id?: string | null
+          total_marks?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "results_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "results_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "results_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "results_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "results_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rubrics: {
+        Row: {
+          created_at: string
+          criteria: Json
+          id: string
+          name: string
+          teacher_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          criteria?: Json
+          id?: string
+          name: string
+          teacher_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          criteria?: Json
+          id?: string
+          name?: string
+          teacher_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rubrics_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sections: {
+        Row: {
+          course_id: string
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sections_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subjects: {
+        Row: {
+          created_at: string
+          credit_hours: number
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          credit_hours?: number
+          name: string
+        }
+        Update: {
+          created_at?: string
+          credit_hours?: number
+          name?: string
+        }
+        Relationships: []
+      }
+      terms: {
+        Row: {
+          created_at: string
+          ends_on: string
+          id: string
+          name: string
+          starts_on: string
+          status: Database["public"]["Enums"]["term_status"]
+        }
+        Insert: {
+          created_at?: string
+          ends_on: string
+          id?: string
+          name: string
+          starts_on: string
+          status?: Database["public"]["Enums"]["term_status"]
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string
+          id?: string
+          name?: string
+          starts_on?: string
+          status?: Database["public"]["Enums"]["term_status"]
+        }
+        Relationships: []
+      }
+      timetable_slots: {
+        Row: {
+          course_id: string
+          created_at: string
+          ends_at: string
+          id: string
+          room: string | null
+          section_id: string | null
+          starts_at: string
+          teacher_id: string | null
+          term_id: string | null
+          weekday: number
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          ends_at: string
+          id?: string
+          room?: string | null
+          section_id?: string | null
+          starts_at: string
+          teacher_id?: string | null
+          term_id?: string | null
+          weekday: number
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          ends_at?: string
+          id?: string
+          room?: string | null
+          section_id?: string | null
+          starts_at?: string
+          teacher_id?: string | null
+          term_id?: string | null
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timetable_slots_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timetable_slots_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timetable_slots_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timetable_slots_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      admin_delete_user: { Args: { target_id: string }; Returns: undefined }
+      admin_set_active: {
+        Args: { is_active: boolean; target_id: string }
+        Returns: undefined
+      }
+      calendar_token: { Args: { reset?: boolean }; Returns: string }
+      claim_email_batch: {
+        Args: { batch_size?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          data: Json
+          dedupe_key: string | null
+          id: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          sent_at: string | null
+          status: Database["public"]["Enums"]["email_status"]
+          template: string
+          to_email: string
+          user_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "email_outbox"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      close_expired_quiz_attempts: { Args: never; Returns: undefined }
+      finish_quiz_attempt: { Args: { attempt: string }; Returns: undefined }
+      grade_quiz_answer: {
+        Args: { answer: string; awarded: number }
+        Returns: undefined
+      }
+      is_admin: { Args: { user_id: string }; Returns: boolean }
+      is_enrolled: {
+        Args: { course_id: string; user_id: string }
+        Returns: boolean
+      }
+      is_teacher: { Args: { user_id: string }; Returns: boolean }
+      mark_overdue_payments: { Args: never; Returns: number }
+      publish_quiz_attempt: { Args: { attempt: string }; Returns: undefined }
+      publish_quiz_results: { Args: { quiz: string }; Returns: number }
+      queue_deadline_reminders: { Args: never; Returns: undefined }
+      queue_email: {
+        Args: {
+          category: Database["public"]["Enums"]["notification_category"]
+          data: Json
+          dedupe_prefix?: string
+          recipients: string[]
+          template: string
+        }
+        Returns: undefined
+      }
+      reverse_payment: {
+        Args: { payment_id: string; reason: string }
+        Returns: undefined
+      }
+      rollover_term: {
+        Args: { next_term: string; promote?: boolean }
+        Returns: number
+      }
+      rubric_total: { Args: { scores: Json }; Returns: number }
+      save_quiz_answer: {
+        Args: { answer: string; choices: number[]; response?: string }
+        Returns: undefined
+      }
+      score_quiz_attempt: { Args: { attempt: string }; Returns: undefined }
+      send_notification: {
+        Args: {
+          body: string
+          category: Database["public"]["Enums"]["notification_category"]
+          link: string
+          recipients: string[]
+          title: string
+        }
+        Returns: undefined
+      }
+      start_quiz: { Args: { quiz: string }; Returns: string }
+      submit_quiz: { Args: { attempt: string }; Returns: undefined }
+      teaches_course: {
+        Args: { course_id: string; user_id: string }
+        Returns: boolean
+      }
+      term_for_date: { Args: { day: string }; Returns: string }
     }
     Enums: {
-      user_role: "student" | "teacher"
+      attendance_status: "present" | "absent" | "late" | "excused"
+      email_status: "pending" | "sending" | "sent" | "failed"
+      notification_category:
+        | "assignment"
+        | "grade"
+        | "result"
+        | "payment"
+        | "attendance"
+      payment_status: "pending" | "paid" | "overdue"
+      question_type: "mcq" | "multi_select" | "true_false" | "short_answer"
+      quiz_attempt_status: "in_progress" | "submitted" | "graded"
+      term_status: "upcoming" | "active" | "archived"
+      user_role: "student" | "teacher" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -409,7 +1507,20 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      user_role: ["student", "teacher"],
+      attendance_status: ["present", "absent", "late", "excused"],
+      email_status: ["pending", "sending", "sent", "failed"],
+      notification_category: [
+        "assignment",
+        "grade",
+        "result",
+        "payment",
+        "attendance",
+      ],
+      payment_status: ["pending", "paid", "overdue"],
+      question_type: ["mcq", "multi_select", "true_false", "short_answer"],
+      quiz_attempt_status: ["in_progress", "submitted", "graded"],
+      term_status: ["upcoming", "active", "archived"],
+      user_role: ["student", "teacher", "admin"],
     },
   },
 } as const
@@ -0,0 +1,18 @@
+/**
+ * Attendance helpers - Roll-call statuses and attendance percentages
+ */
+import { Tables } from '@/integrations/supabase/types';
+
+export const ATTENDANCE_STATUSES = ['present', 'late', 'absent', 'excused'] as const;
+export type AttendanceStatus = (typeof ATTENDANCE_STATUSES)[number];
+
+type Mark = Pick<Tables<'attendance'>, 'status'>;
+
+// Late counts as attended; excused sessions are left out of the total (same rule as notify_low_attendance in the database)
+export const attendanceSummary = (marks: Mark[]) => {
+  const held = marks.filter(m => m.status !== 'excused').length;
+  const attended = marks.filter(m => m.status === 'present' || m.status === 'late').length;
+  return { held, attended, percent: held > 0 ? (attended / held) * 100 : null };
+};
+
+export const isBelowMinimum = (percent: number | null, minimum: number) => percent !== null && percent < minimum;
@@ -0,0 +1,56 @@
+/**
+ * Calendar helpers - Expands the weekly timetable and holidays into dated calendar events
+ */
+import { eachDayOfInterval, format } from 'date-fns';
+import { Tables } from '@/integrations/supabase/types';
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export type EventKind = 'class' | 'exam' | 'assignment' | 'fee' | 'holiday';
+
+export type CalendarEvent = {
+  id: string;
+  kind: EventKind;
+  title: string;
+  // yyyy-MM-dd
+  date: string;
+  time?: string;
+  detail?: string;
+};
+
+type Holiday = Pick<Tables<'holidays'>, 'id' | 'name' | 'starts_on' | 'ends_on'>;
+type Slot = Pick<Tables<'timetable_slots'>, 'id' | 'weekday' | 'starts_at' | 'ends_at' | 'room'> & {
+  course: { code: string } | null;
+  section: { name: string } | null;
+  teacher: { full_name: string } | null;
+  term: { starts_on: string; ends_on: string } | null;
+};
+
+export const dateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Postgres TIME comes back as HH:mm:ss
+export const shortTime = (time: string) => time.slice(0, 5);
+
+export const isHoliday = (date: string, holidays: Holiday[]) => holidays.some(h => date >= h.starts_on && date <= h.ends_on);
+
+export const holidayEvents = (holidays: Holiday[], from: Date, to: Date): CalendarEvent[] =>
+  eachDayOfInterval({ start: from, end: to }).map(dateKey).flatMap(date => holidays
+    .filter(h => date >= h.starts_on && date <= h.ends_on)
+    .map(h => ({ id: `holiday-${h.id}-${date}`, kind: 'holiday' as const, title: h.name, date })));
+
+// One class per matching weekday inside the slot's term, skipping holidays
+export const classEvents = (slots: Slot[], holidays: Holiday[], from: Date, to: Date): CalendarEvent[] =>
+  eachDayOfInterval({ start: from, end: to }).flatMap(day => {
+    const date = dateKey(day);
+    if (isHoliday(date, holidays)) return [];
+    return slots
+      .filter(s => s.weekday === day.getDay() && (!s.term || (date >= s.term.starts_on && date <= s.term.ends_on)))
+      .map(s => ({
+        id: `class-${s.id}-${date}`,
+        kind: 'class' as const,
+        title: `${s.course?.code ?? 'Class'}${s.section ? ` (${s.section.name})` : ''}`,
+        date,
+        time: `${shortTime(s.starts_at)}–${shortTime(s.ends_at)}`,
+        detail: [s.room, s.teacher?.full_name].filter(Boolean).join(' · '),
+      }));
+  });
@@ -0,0 +1,7 @@
+/**
+ * Course helpers - Display labels for courses
+ */
+import { Tables } from '@/integrations/supabase/types';
+
+export const courseLabel = (course: Pick<Tables<'courses'>, 'code' | 'name'> | null | undefined) =>
+  !course ? 'All courses' : course.code === course.name ? course.code : `${course.code} · ${course.name}`;
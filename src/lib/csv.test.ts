@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from '@/lib/csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('name,email\nAda,ada@example.com\n')).toEqual([['name', 'email'], ['Ada', 'ada@example.com']]);
+  });
+
+  it('accepts CRLF line endings', () => {
+    expect(parseCsv('a,b\r\nc,d\r\n')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('reads quoted commas, doubled quotes and embedded newlines', () => {
+    expect(parseCsv('"Lovelace, Ada","say ""hi""","line 1\r\nline 2"')).toEqual([['Lovelace, Ada', 'say "hi"', 'line 1\r\nline 2']]);
+  });
+
+  it('keeps empty fields and skips blank lines', () => {
+    expect(parseCsv('a,,c\n\n,\n')).toEqual([['a', '', 'c']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('joins rows with CRLF and leaves plain values unquoted', () => {
+    expect(toCsv([['name', 'marks'], ['Ada', 42], [null, undefined]])).toBe('name,marks\r\nAda,42\r\n,');
+  });
+
+  it('quotes values with commas, quotes and newlines', () => {
+    expect(toCsv([['Lovelace, Ada', 'say "hi"', 'line 1\nline 2']])).toBe('"Lovelace, Ada","say ""hi""","line 1\nline 2"');
+  });
+
+  it('defuses text a spreadsheet would run as a formula', () => {
+    expect(toCsv([['=HYPERLINK("http://evil.example","x")', '+1', '-1', '@SUM(A1)', '\tcmd', '\rcmd']])).toBe(
+      `"'=HYPERLINK(""http://evil.example"",""x"")",'+1,'-1,'@SUM(A1),'\tcmd,"'\rcmd"`,
+    );
+  });
+
+  it('leaves negative numbers alone', () => {
+    expect(toCsv([[-5, 2.5]])).toBe('-5,2.5');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['Lovelace, Ada', 'say "hi"', 'two\nlines'], ['plain', '', 'x']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * CSV helpers - Parse uploaded spreadsheets and download tables as CSV
+ */
+import { downloadBlob } from '@/lib/download';
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+  if (field || row.length) rows.push([...row, field]);
+
+  // Skip blank lines, e.g. the one after a trailing newline
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+// Text a spreadsheet would run as a formula gets a leading quote; numbers (including negative ones) are left alone
+const FORMULA = /^[=+\-@\t\r]/;
+
+const escape = (value: unknown) => {
+  const text = value == null ? '' : typeof value === 'string' && FORMULA.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]) => rows.map(r => r.map(escape).join(',')).join('\r\n');
+
+// The byte order mark makes Excel read the file as UTF-8
+export const downloadCsv = (filename: string, rows: unknown[][]) =>
+  downloadBlob(filename, new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' }));
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SCHEME,
+  ExamMark,
+  GradingScheme,
+  bandsError,
+  cgpa,
+  examTypeScore,
+  gpa,
+  gradeBand,
+  gradeSubjects,
+  letterGrade,
+  percentage,
+  semesterOf,
+  subjectGrade,
+} from '@/lib/grading';
+
+const mark = (exam_type: string, marks_obtained: number, total_marks = 100, subject = 'Math'): ExamMark =>
+  ({ subject, exam_type, marks_obtained, total_marks });
+
+describe('percentage', () => {
+  it('scales marks to 100', () => {
+    expect(percentage(15, 20)).toBe(75);
+  });
+
+  it('is 0 when there is no total', () => {
+    expect(percentage(5, 0)).toBe(0);
+  });
+});
+
+describe('grade bands', () => {
+  it('picks the band whose minimum is reached', () => {
+    expect(letterGrade(100)).toBe('A+');
+    expect(letterGrade(80)).toBe('A+');
+    expect(letterGrade(79.99)).toBe('A');
+    expect(letterGrade(40)).toBe('D');
+    expect(letterGrade(39.9)).toBe('F');
+    expect(letterGrade(0)).toBe('F');
+  });
+
+  it('does not depend on the order bands are listed in', () => {
+    const bands = [
+      { letter: 'Fail', min: 0, point: 0 },
+      { letter: 'Distinction', min: 70, point: 4 },
+      { letter: 'Pass', min: 50, point: 2 },
+    ];
+    expect(gradeBand(65, bands)).toEqual({ letter: 'Pass', min: 50, point: 2 });
+    expect(letterGrade(70, bands)).toBe('Distinction');
+  });
+
+  it('falls back to the lowest band below every minimum', () => {
+    expect(letterGrade(10, [{ letter: 'P', min: 50, point: 1 }, { letter: 'N', min: 20, point: 0 }])).toBe('N');
+  });
+});
+
+describe('bandsError', () => {
+  const bands = [
+    { letter: 'A', min: 70, point: 4 },
+    { letter: 'B', min: 50, point: 3 },
+    { letter: 'F', min: 0, point: 0 },
+  ];
+
+  it('accepts the default bands and a custom scale', () => {
+    expect(bandsError(DEFAULT_SCHEME.bands)).toBeNull();
+    expect(bandsError(bands)).toBeNull();
+  });
+
+  it('rejects bands out of order or sharing a minimum', () => {
+    expect(bandsError([bands[1], bands[0], bands[2]])).toMatch(/highest minimum/);
+    expect(bandsError([bands[0], { ...bands[1], min: 70 }, bands[2]])).toMatch(/highest minimum/);
+  });
+
+  it('rejects a scale that does not reach 0%', () => {
+    expect(bandsError(bands.slice(0, 2))).toMatch(/0%/);
+  });
+
+  it('rejects missing or duplicate letters and bad numbers', () => {
+    expect(bandsError([])).not.toBeNull();
+    expect(bandsError([{ ...bands[0], letter: ' ' }, ...bands.slice(1)])).toMatch(/letter/);
+    expect(bandsError([bands[0], { ...bands[1], letter: 'A' }, bands[2]])).toMatch(/unique/);
+    expect(bandsError([{ ...bands[0], min: 120 }, ...bands.slice(1)])).toMatch(/between 0 and 100/);
+    expect(bandsError([{ ...bands[0], min: NaN }, ...bands.slice(1)])).toMatch(/between 0 and 100/);
+    expect(bandsError([bands[0], { ...bands[1], point: 5 }, bands[2]])).toMatch(/more points/);
+  });
+});
+
+describe('best N of M', () => {
+  const cts = [mark('CT', 10, 20), mark('CT', 15, 20), mark('CT', 18, 20), mark('CT', 20, 20)];
+
+  it('averages only the best marks', () => {
+    expect(examTypeScore(cts, 3)).toBeCloseTo((100 + 90 + 75) / 3);
+  });
+
+  it('averages every mark without a limit', () => {
+    expect(examTypeScore(cts)).toBeCloseTo(78.75);
+  });
+
+  it('applies the scheme limit per exam type', () => {
+    expect(subjectGrade('Math', cts).breakdown.CT).toBeCloseTo((100 + 90 + 75) / 3);
+  });
+});
+
+describe('weighted subject grade', () => {
+  it('combines exam types by weight', () => {
+    const grade = subjectGrade('Math', [mark('CT', 90), mark('Midterm', 60), mark('Final', 80)]);
+    expect(grade.percent).toBeCloseTo(76);
+    expect(grade.letter).toBe('A');
+    expect(grade.point).toBe(3.75);
+    expect(grade.complete).toBe(true);
+  });
+
+  it('rescales weights over the exam types recorded so far', () => {
+    const grade = subjectGrade('Math', [mark('Midterm', 60), mark('Final', 80)]);
+    expect(grade.percent).toBeCloseTo((60 * 30 + 80 * 50) / 80);
+    expect(grade.letter).toBe('A-');
+    expect(grade.complete).toBe(false);
+  });
+
+  it('ignores unweighted exam types when weighted ones exist', () => {
+    const grade = subjectGrade('Math', [mark('Final', 80), mark('Viva', 10)]);
+    expect(grade.percent).toBeCloseTo(80);
+    expect(grade.breakdown.Viva).toBe(10);
+  });
+
+  it('counts every exam type equally without any weighted one', () => {
+    const scheme: GradingScheme = { ...DEFAULT_SCHEME, weights: { CT: 20 } };
+    expect(subjectGrade('Math', [mark('Lab', 50), mark('Viva', 70)], scheme).percent).toBeCloseTo(60);
+  });
+});
+
+describe('credits', () => {
+  it('uses per-subject credits and the default for the rest', () => {
+    const grades = gradeSubjects([mark('Final', 90, 100, 'Physics'), mark('Final', 70, 100, 'Math')], DEFAULT_SCHEME, { Physics: 4 });
+    expect(grades.map(g => [g.subject, g.credits])).toEqual([['Math', 3], ['Physics', 4]]);
+  });
+});
+
+describe('GPA and CGPA', () => {
+  it('weights grade points by credits', () => {
+    expect(gpa([{ point: 4, credits: 3 }, { point: 3, credits: 1 }])).toBeCloseTo(3.75);
+  });
+
+  it('is 0 without credits', () => {
+    expect(gpa([])).toBe(0);
+  });
+
+  it('weights every subject across semesters instead of averaging semester GPAs', () => {
+    const semesters = [[{ point: 4, credits: 3 }], [{ point: 2, credits: 1 }, { point: 3, credits: 1 }]];
+    expect(cgpa(semesters)).toBeCloseTo(17 / 5);
+    expect(cgpa(semesters)).not.toBeCloseTo((4 + 2.5) / 2);
+  });
+});
+
+describe('semesterOf', () => {
+  it('splits the year at the end of June', () => {
+    expect(semesterOf('2026-01-01')).toBe('Spring 2026');
+    expect(semesterOf('2026-06-30')).toBe('Spring 2026');
+    expect(semesterOf('2026-07-01')).toBe('Fall 2026');
+    expect(semesterOf('2025-12-31')).toBe('Fall 2025');
+  });
+
+  it('reads the date as written west of Greenwich', () => {
+    const tz = process.env.TZ;
+    process.env.TZ = 'America/New_York';
+    try {
+      expect(semesterOf('2026-01-01')).toBe('Spring 2026');
+      expect(semesterOf('2026-07-01')).toBe('Fall 2026');
+    } finally {
+      if (tz === undefined) delete process.env.TZ;
+      else process.env.TZ = tz;
+    }
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Grading engine - Turns exam marks into subject grades, GPA and CGPA
+ *
+ * Pure functions only, so the same rules apply on the student results page and the teacher gradebook.
+ */
+import { Tables } from '@/integrations/supabase/types';
+
+export type GradeBand = { letter: string; min: number; point: number };
+
+export type GradingScheme = {
+  // Checked from the highest min down; min is the lowest percentage for the band
+  bands: GradeBand[];
+  // Share of the subject total per exam type, e.g. { CT: 20, Midterm: 30, Final: 50 }
+  weights: Record<string, number>;
+  // Only the best N marks of an exam type count, e.g. { CT: 3 } for best 3 of 4 CTs
+  bestOf: Record<string, number>;
+};
+
+export type ExamMark = Pick<Tables<'results'>, 'subject' | 'exam_type' | 'marks_obtained' | 'total_marks'>;
+
+export type SubjectGrade = {
+  subject: string;
+  percent: number;
+  letter: string;
+  point: number;
+  credits: number;
+  // Percentage per exam type after best-of rules
+  breakdown: Record<string, number>;
+  // False while a weighted exam type has no marks yet, so the grade is provisional
+  complete: boolean;
+};
+
+export const DEFAULT_GRADE_BANDS: GradeBand[] = [
+  { letter: 'A+', min: 80, point: 4.0 },
+  { letter: 'A', min: 75, point: 3.75 },
+  { letter: 'A-', min: 70, point: 3.5 },
+  { letter: 'B+', min: 65, point: 3.25 },
+  { letter: 'B', min: 60, point: 3.0 },
+  { letter: 'B-', min: 55, point: 2.75 },
+  { letter: 'C+', min: 50, point: 2.5 },
+  { letter: 'C', min: 45, point: 2.25 },
+  { letter: 'D', min: 40, point: 2.0 },
+  { letter: 'F', min: 0, point: 0 },
+];
+
+export const DEFAULT_SCHEME: GradingScheme = {
+  bands: DEFAULT_GRADE_BANDS,
+  weights: { CT: 20, Midterm: 30, Final: 50 },
+  bestOf: { CT: 3 },
+};
+
+export const DEFAULT_CREDITS = 3;
+
+export const EXAM_TYPES = ['CT', 'Midterm', 'Final'] as const;
+
+const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+const average = (xs: number[]) => (xs.length ? sum(xs) / xs.length : 0);
+
+export const groupBy = <T>(items: T[], key: (item: T) => string) => {
+  const groups: Record<string, T[]> = {};
+  items.forEach(item => (groups[key(item)] ??= []).push(item));
+  return groups;
+};
+
+export const percentage = (marks: number, total: number) => (total > 0 ? (marks / total) * 100 : 0);
+
+export const gradeBand = (percent: number, bands = DEFAULT_GRADE_BANDS) => {
+  const sorted = [...bands].sort((a, b) => b.min - a.min);
+  return sorted.find(b => percent >= b.min) ?? sorted[sorted.length - 1];
+};
+
+export const letterGrade = (percent: number, bands = DEFAULT_GRADE_BANDS) => gradeBand(percent, bands).letter;
+
+// Bands must run from the highest minimum down to a band starting at 0, with no two sharing a minimum
+export const bandsError = (bands: GradeBand[]) => {
+  if (bands.length === 0) return 'Add at least one grade band';
+  if (bands.some(b => !b.letter.trim())) return 'Every band needs a letter';
+  if (new Set(bands.map(b => b.letter.trim())).size !== bands.length) return 'Band letters must be unique';
+  if (bands.some(b => !(b.min >= 0 && b.min <= 100))) return 'Band minimums must be between 0 and 100%';
+  if (bands.some(b => !(b.point >= 0))) return 'Grade points cannot be negative';
+  if (bands.some((b, i) => i > 0 && b.min >= bands[i - 1].min)) return 'List bands from the highest minimum down, without repeating a minimum';
+  if (bands.some((b, i) => i > 0 && b.point > bands[i - 1].point)) return 'A lower band cannot be worth more points';
+  if (bands[bands.length - 1].min !== 0) return 'The lowest band must start at 0%';
+  return null;
+};
+
+// Average percentage of one exam type, keeping only the best N marks when a limit is set
+export const examTypeScore = (marks: ExamMark[], bestOf?: number) => {
+  const percents = marks.map(m => percentage(m.marks_obtained, m.total_marks)).sort((a, b) => b - a);
+  return average(bestOf ? percents.slice(0, bestOf) : percents);
+};
+
+export const subjectGrade = (subject: string, marks: ExamMark[], scheme = DEFAULT_SCHEME, credits = DEFAULT_CREDITS): SubjectGrade => {
+  const breakdown = Object.fromEntries(
+    Object.entries(groupBy(marks, m => m.exam_type)).map(([type, rows]) => [type, examTypeScore(rows, scheme.bestOf[type])]),
+  );
+
+  // Weights are rescaled over the exam types recorded so far; without any weighted type, all types count equally
+  const weighted = Object.keys(scheme.weights).filter(type => type in breakdown && scheme.weights[type] > 0);
+  const weightSum = sum(weighted.map(type => scheme.weights[type]));
+  const percent = weightSum > 0
+    ? sum(weighted.map(type => breakdown[type] * scheme.weights[type])) / weightSum
+    : average(Object.values(breakdown));
+
+  const band = gradeBand(percent, scheme.bands);
+  const required = Object.keys(scheme.weights).filter(type => scheme.weights[type] > 0);
+  return { subject, percent, letter: band.letter, point: band.point, credits, breakdown, complete: required.every(type => type in breakdown) };
+};
+
+export const gradeSubjects = (marks: ExamMark[], scheme = DEFAULT_SCHEME, credits: Record<string, number> = {}) =>
+  Object.entries(groupBy(marks, m => m.subject))
+    .map(([subject, rows]) => subjectGrade(subject, rows, scheme, credits[subject] ?? DEFAULT_CREDITS))
+    .sort((a, b) => a.subject.localeCompare(b.subject));
+
+// Credit-weighted grade point average
+export const gpa = (grades: Pick<SubjectGrade, 'point' | 'credits'>[]) => {
+  const credits = sum(grades.map(g => g.credits));
+  return credits > 0 ? sum(grades.map(g => g.point * g.credits)) / credits : 0;
+};
+
+// CGPA weights every subject by its credits across all semesters rather than averaging semester GPAs
+export const cgpa = (semesters: Pick<SubjectGrade, 'point' | 'credits'>[][]) => gpa(semesters.flat());
+
+// Exams from January to June belong to the Spring semester, the rest to Fall. The yyyy-MM-dd parts are read
+// directly because new Date() parses a bare date as UTC midnight, which is the previous day west of Greenwich
+export const semesterOf = (examDate: string) => {
+  const [year, month] = examDate.split('-').map(Number);
+  return `${month <= 6 ? 'Spring' : 'Fall'} ${year}`;
+};
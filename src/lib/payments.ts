@@ -0,0 +1,33 @@
+/**
+ * Payment helpers - Totals and overdue checks for fee items
+ */
+import { format } from 'date-fns';
+import { Constants, Enums, Tables } from '@/integrations/supabase/types';
+
+type Payment = Pick<Tables<'payments'>, 'amount' | 'status' | 'due_date'>;
+
+export type PaymentStatus = Enums<'payment_status'>;
+
+export const PAYMENT_STATUSES = Constants.public.Enums.payment_status;
+
+// Mirrors enforce_payment_status() in the database; paid items only reopen through reverse_payment()
+const TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['paid', 'overdue'],
+  overdue: ['paid', 'pending'],
+  paid: [],
+};
+
+export const canTransition = (from: PaymentStatus, to: PaymentStatus) => TRANSITIONS[from].includes(to);
+
+export const PAYMENT_TYPES = ['tuition', 'lab', 'library', 'exam', 'transport', 'other'];
+
+export const formatAmount = (amount: number) =>
+  amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const isPaid = (p: Payment) => p.status === 'paid';
+
+// Pending items past their due date count as overdue even before the status is updated
+export const isOverdue = (p: Payment, today = new Date()) =>
+  p.status === 'overdue' || (!isPaid(p) && p.due_date < format(today, 'yyyy-MM-dd'));
+
+export const sumAmounts = (payments: Payment[]) => payments.reduce((sum, p) => sum + Number(p.amount), 0);
@@ -0,0 +1,20 @@
+/**
+ * Query Client - Shared React Query client; every failed query or mutation surfaces as a toast
+ */
+import { MutationCache, QueryCache, QueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: error => toast.error(error.message) }),
+  mutationCache: new MutationCache({ onError: error => toast.error(error.message) }),
+  defaultOptions: {
+    queries: { staleTime: 30_000, retry: 1, refetchOnWindowFocus: false },
+  },
+});
+
+// Supabase returns errors instead of throwing; React Query needs them thrown
+export const unwrap = async <T>(query: PromiseLike<{ data: T; error: { message: string } | null }>): Promise<T> => {
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,30 @@
+/**
+ * Quiz helpers - Question types and the open/closed window shared by student and teacher views
+ */
+import { Tables } from '@/integrations/supabase/types';
+
+export const QUESTION_TYPES = ['mcq', 'multi_select', 'true_false', 'short_answer'] as const;
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'Multiple choice',
+  multi_select: 'Multi-select',
+  true_false: 'True / false',
+  short_answer: 'Short answer',
+};
+
+// True/false questions are stored as two fixed options
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+type Quiz = Pick<Tables<'quizzes'>, 'opens_at' | 'closes_at'>;
+
+export type QuizWindow = 'upcoming' | 'open' | 'closed';
+
+export const quizWindow = (quiz: Quiz, at = new Date()): QuizWindow =>
+  at < new Date(quiz.opens_at) ? 'upcoming' : at >= new Date(quiz.closes_at) ? 'closed' : 'open';
+
+// Time left as m:ss, never below zero
+export const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
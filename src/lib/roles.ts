@@ -0,0 +1,11 @@
+/**
+ * Role helpers - Who may open which part of the app
+ */
+import { Enums } from '@/integrations/supabase/types';
+import { Profile } from '@/repositories/profiles';
+
+export type Role = Enums<'user_role'>;
+
+// Teachers only count as teachers once an admin approves them
+export const hasRole = (profile: Profile | null, roles: Role[]) =>
+  !!profile && roles.includes(profile.role) && (profile.role !== 'teacher' || profile.approved);
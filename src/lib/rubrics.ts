@@ -0,0 +1,16 @@
+/**
+ * Rubric helpers - Criteria × performance levels and the grade a filled rubric adds up to
+ */
+export type RubricLevel = { label: string; points: number };
+export type RubricCriterion = { title: string; description?: string; levels: RubricLevel[] };
+// A criterion as graded; selected is the index of the level picked
+export type ScoredCriterion = RubricCriterion & { selected: number | null };
+
+export const rubricMaxPoints = (criteria: RubricCriterion[]) =>
+  criteria.reduce((sum, c) => sum + Math.max(0, ...c.levels.map(l => l.points)), 0);
+
+// Same sum as rubric_total in the database, which sets the submission's grade
+export const rubricTotal = (scores: ScoredCriterion[]) =>
+  scores.reduce((sum, c) => sum + (c.selected === null ? 0 : c.levels[c.selected]?.points ?? 0), 0);
+
+export const isFullyScored = (scores: ScoredCriterion[]) => scores.every(c => c.selected !== null);
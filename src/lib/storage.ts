@@ -0,0 +1,59 @@
+/**
+ * Storage helpers - Upload and remove assignment files, submissions and avatars
+ */
+import { supabase } from '@/integrations/supabase/client';
+
+const ASSIGNMENTS = 'assignments';
+const SUBMISSIONS = 'submissions';
+const AVATARS = 'avatars';
+
+// Signed submission links stay valid this long
+export const SIGNED_URL_SECONDS = 60 * 60;
+
+// Files go under the uploader's id so the storage policies can check ownership
+const uploadPath = async (bucket: string, userId: string, file: File) => {
+  const path = `${userId}/${Date.now()}-${file.name}`;
+  const { error } = await supabase.storage.from(bucket).upload(path, file);
+  if (error) throw error;
+  return path;
+};
+
+const upload = async (bucket: string, userId: string, file: File) =>
+  supabase.storage.from(bucket).getPublicUrl(await uploadPath(bucket, userId, file)).data.publicUrl;
+
+const remove = async (bucket: string, fileUrl: string) => {
+  const path = fileUrl.split(`/${bucket}/`)[1];
+  if (path) await supabase.storage.from(bucket).remove([decodeURIComponent(path)]);
+};
+
+// Submissions made before the private bucket stored a public URL in the assignments bucket
+const isLegacyUrl = (fileUrl: string) => /^https?:\/\//.test(fileUrl);
+
+export const uploadAssignmentFile = async (userId: string, file: File) => ({
+  file_url: await upload(ASSIGNMENTS, userId, file),
+  file_name: file.name,
+});
+
+export const removeAssignmentFile = (fileUrl: string) => remove(ASSIGNMENTS, fileUrl);
+
+// Submissions are private: file_url holds the storage path, opened through a signed link
+export const uploadSubmissionFile = async (userId: string, file: File) => ({
+  file_url: await uploadPath(SUBMISSIONS, userId, file),
+  file_name: file.name,
+});
+
+export const removeSubmissionFile = async (fileUrl: string) => {
+  if (isLegacyUrl(fileUrl)) return remove(ASSIGNMENTS, fileUrl);
+  await supabase.storage.from(SUBMISSIONS).remove([fileUrl]);
+};
+
+export const submissionFileUrl = async (fileUrl: string) => {
+  if (isLegacyUrl(fileUrl)) return fileUrl;
+  const { data, error } = await supabase.storage.from(SUBMISSIONS).createSignedUrl(fileUrl, SIGNED_URL_SECONDS);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const uploadAvatar = (userId: string, file: File) => upload(AVATARS, userId, file);
+
+export const removeAvatar = (avatarUrl: string) => remove(AVATARS, avatarUrl);
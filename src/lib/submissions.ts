@@ -0,0 +1,25 @@
+/**
+ * Submission helpers - Deadline and late checks shared by student and teacher views
+ */
+import { Tables } from '@/integrations/supabase/types';
+
+type Assignment = Pick<Tables<'assignments'>, 'due_date'>;
+type Submission = Pick<Tables<'assignment_submissions'>, 'submitted_at' | 'status'>;
+
+export const isPastDue = (dueDate: string | null, at = new Date()) => !!dueDate && at > new Date(dueDate);
+
+export const isLate = (submission: Submission, assignment: Assignment) =>
+  !!submission.submitted_at && isPastDue(assignment.due_date, new Date(submission.submitted_at));
+
+// Grading lifecycle: a submission is graded privately, then returned to the student
+export const SUBMISSION_STATUSES = ['submitted', 'graded', 'returned'] as const;
+export type SubmissionStatus = (typeof SUBMISSION_STATUSES)[number];
+
+export type SubmissionState = 'missing' | 'pending' | 'late' | SubmissionStatus;
+
+// What a teacher sees for one student on one assignment
+export const submissionState = (submission: Submission | undefined, assignment: Assignment): SubmissionState => {
+  if (!submission) return isPastDue(assignment.due_date) ? 'missing' : 'pending';
+  if (submission.status === 'graded' || submission.status === 'returned') return submission.status;
+  return isLate(submission, assignment) ? 'late' : 'submitted';
+};
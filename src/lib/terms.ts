@@ -0,0 +1,16 @@
+/**
+ * Term helpers - Grouping rows by academic term
+ */
+import { groupBy } from '@/lib/grading';
+import { Tables } from '@/integrations/supabase/types';
+
+type Term = Pick<Tables<'terms'>, 'id' | 'name' | 'starts_on'>;
+
+// Oldest term first; rows without a term fall back to a name derived from the row itself
+export const groupByTerm = <T extends { term_id: string | null }>(items: T[], terms: Term[], fallback: (item: T) => string) => {
+  const byId = new Map(terms.map(t => [t.id, t]));
+  const startsOn = new Map(terms.map(t => [t.name, t.starts_on]));
+  return Object.entries(groupBy(items, i => byId.get(i.term_id)?.name ?? fallback(i)))
+    .map(([name, rows]) => ({ name, rows }))
+    .sort((a, b) => (startsOn.get(a.name) ?? '').localeCompare(startsOn.get(b.name) ?? ''));
+};
@@ -0,0 +1,180 @@
+/**
+ * Admin Console - List, search and manage every user account
+ */
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Constants, Enums } from '@/integrations/supabase/types';
+import { Email, useEmailOutbox, useRequeueEmail } from '@/repositories/email-outbox';
+import { Profile, useDeleteUser, useProfiles, useSetActive, useUpdateProfile } from '@/repositories/profiles';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+type Role = Enums<'user_role'>;
+
+// Promote and demote walk this ladder one step at a time
+const ROLE_LADDER: Role[] = ['student', 'teacher', 'admin'];
+
+const Admin = () => {
+  const { user } = useAuth();
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState('');
+  const [pendingOnly, setPendingOnly] = useState(false);
+  const [view, setView] = useState<'users' | 'emails'>('users');
+  const { data: users = [] } = useProfiles();
+  const { data: emails = [] } = useEmailOutbox();
+  const updateMutation = useUpdateProfile();
+  const setActiveMutation = useSetActive();
+  const deleteMutation = useDeleteUser();
+  const requeueMutation = useRequeueEmail();
+
+  const updateUser = (u: Profile, values: Partial<Profile>, message: string) => {
+    updateMutation.mutate({ id: u.id, values }, { onSuccess: () => toast.success(message) });
+  };
+
+  const changeRole = (u: Profile, step: 1 | -1) => {
+    const role = ROLE_LADDER[ROLE_LADDER.indexOf(u.role) + step];
+    // Admins pick teachers by hand, so anyone they promote is approved
+    updateUser(u, { role, approved: true }, `${u.full_name} is now ${role === 'admin' ? 'an' : 'a'} ${role}`);
+  };
+
+  const setActive = (u: Profile, active: boolean) => {
+    setActiveMutation.mutate({ id: u.id, active }, { onSuccess: () => toast.success(active ? 'Account reactivated' : 'Account deactivated') });
+  };
+
+  const deleteUser = (u: Profile) => {
+    // Teachers who still own marks, assignments, sessions or quizzes are refused by the server; deactivate them instead
+    if (!confirm(`Permanently delete ${u.full_name} (${u.email}) and all their data? For a student this includes their marks, submissions and attendance.`)) return;
+    deleteMutation.mutate(u.id, { onSuccess: () => toast.success('User deleted') });
+  };
+
+  const requeueEmail = (email: Email) => {
+    requeueMutation.mutate(email, { onSuccess: () => toast.success('Email requeued') });
+  };
+
+  const query = search.trim().toLowerCase();
+  const filtered = users.filter(u =>
+    (!roleFilter || u.role === roleFilter) &&
+    (!pendingOnly || !u.approved) &&
+    (!query || [u.full_name, u.email, u.roll_number, u.course, u.department].some(v => v?.toLowerCase().includes(query))),
+  );
+  const pendingCount = users.filter(u => !u.approved).length;
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Admin Console</h1>
+        <div className="flex gap-2">
+          <Button variant={view === 'users' ? 'default' : 'outline'} onClick={() => setView('users')}>Users</Button>
+          <Button variant={view === 'emails' ? 'default' : 'outline'} onClick={() => setView('emails')}>Email outbox</Button>
+        </div>
+      </div>
+
+      {view === 'users' && (
+        <>
+          {/* Filters */}
+          <div className="bg-card p-4 rounded-lg shadow flex flex-wrap gap-2 items-center mb-6">
+            <Input className="max-w-xs" placeholder="Search name, email, roll, course..." value={search} onChange={e => setSearch(e.target.value)} />
+            <select className="p-2 border rounded bg-background capitalize" value={roleFilter} onChange={e => setRoleFilter(e.target.value)}>
+              <option value="">All roles</option>
+              {Constants.public.Enums.user_role.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+            <Button variant={pendingOnly ? 'default' : 'outline'} onClick={() => setPendingOnly(!pendingOnly)}>
+              Pending approval ({pendingCount})
+            </Button>
+          </div>
+
+          {/* Users */}
+          <div className="bg-card p-4 rounded-lg shadow overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="p-2">Name</th>
+                  <th className="p-2">Email</th>
+                  <th className="p-2">Role</th>
+                  <th className="p-2">Status</th>
+                  <th className="p-2">Joined</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map(u => {
+                  const isSelf = u.id === user?.id;
+                  const rank = ROLE_LADDER.indexOf(u.role);
+                  return (
+                    <tr key={u.id} className={cn('border-b last:border-0', !u.active && 'opacity-60')}>
+                      <td className="p-2 font-medium">{u.full_name}</td>
+                      <td className="p-2 text-muted-foreground">{u.email}</td>
+                      <td className="p-2 capitalize">{u.role}</td>
+                      <td className="p-2">
+                        {!u.active ? <span className="text-destructive">Deactivated</span>
+                          : !u.approved ? <span className="text-warning font-medium">Pending approval</span>
+                          : <span className="text-success">Active</span>}
+                      </td>
+                      <td className="p-2 text-muted-foreground">{u.created_at && format(new Date(u.created_at), 'PP')}</td>
+                      <td className="p-2">
+                        {!isSelf && (
+                          <div className="flex gap-1 justify-end flex-wrap">
+                            {!u.approved && <Button size="sm" onClick={() => updateUser(u, { approved: true }, 'Teacher approved')}>Approve</Button>}
+                            {rank < ROLE_LADDER.length - 1 && <Button size="sm" variant="outline" onClick={() => changeRole(u, 1)}>Promote</Button>}
+                            {rank > 0 && <Button size="sm" variant="outline" onClick={() => changeRole(u, -1)}>Demote</Button>}
+                            <Button size="sm" variant="outline" onClick={() => setActive(u, !u.active)}>{u.active ? 'Deactivate' : 'Activate'}</Button>
+                            <Button size="sm" variant="destructive" onClick={() => deleteUser(u)}>Delete</Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {filtered.length === 0 && <p className="text-muted-foreground p-2">No users found</p>}
+          </div>
+        </>
+      )}
+
+      {/* Email delivery status */}
+      {view === 'emails' && (
+        <div className="bg-card p-4 rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="p-2">Queued</th>
+                <th className="p-2">To</th>
+                <th className="p-2">Template</th>
+                <th className="p-2">Status</th>
+                <th className="p-2">Attempts</th>
+                <th className="p-2">Last error</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {emails.map(e => (
+                <tr key={e.id} className="border-b last:border-0">
+                  <td className="p-2 text-muted-foreground">{format(new Date(e.created_at), 'PPp')}</td>
+                  <td className="p-2">{e.to_email}</td>
+                  <td className="p-2">{e.template}</td>
+                  <td className="p-2">
+                    <span className={cn('capitalize', e.status === 'sent' ? 'text-success' : e.status === 'failed' ? 'text-destructive' : 'text-muted-foreground')}>{e.status}</span>
+                    {e.sent_at && <span className="text-muted-foreground"> {format(new Date(e.sent_at), 'PPp')}</span>}
+                  </td>
+                  <td className="p-2">{e.attempts}/{e.max_attempts}</td>
+                  <td className="p-2 text-muted-foreground max-w-xs truncate" title={e.last_error ?? undefined}>{e.last_error ?? '—'}</td>
+                  <td className="p-2 text-right">
+                    {e.status === 'failed' && <Button size="sm" variant="outline" onClick={() => requeueEmail(e)}>Retry</Button>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {emails.length === 0 && <p className="text-muted-foreground p-2">No emails queued</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Admin;
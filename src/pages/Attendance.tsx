@@ -0,0 +1,178 @@
+/**
+ * Attendance - Teachers take roll call for a class session and watch each student's attendance
+ */
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { ATTENDANCE_STATUSES, AttendanceStatus, attendanceSummary, isBelowMinimum } from '@/lib/attendance';
+import { courseLabel } from '@/lib/courses';
+import { groupBy } from '@/lib/grading';
+import { useClassSessions, useCourseAttendance, useDeleteClassSession, useSessionAttendance, useTakeAttendance } from '@/repositories/attendance';
+import { useMyCourses } from '@/repositories/courses';
+import { useRoster } from '@/repositories/enrollments';
+import { useSections } from '@/repositories/sections';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+const statusStyles: Record<AttendanceStatus, string> = {
+  present: 'bg-success text-success-foreground',
+  late: 'bg-warning text-warning-foreground',
+  absent: 'bg-destructive text-destructive-foreground',
+  excused: 'bg-secondary text-secondary-foreground',
+};
+
+const Attendance = () => {
+  const { user } = useAuth();
+  const { courses } = useMyCourses();
+  const [courseId, setCourseId] = useState('');
+  const { data: sections = [] } = useSections(courseId || undefined);
+  const [sectionId, setSectionId] = useState('');
+  const { roster } = useRoster(courseId || undefined, sectionId || undefined);
+  const { data: sessions = [] } = useClassSessions(courseId || undefined);
+  // Empty means a new session
+  const [sessionId, setSessionId] = useState('');
+  const { data: sessionMarks } = useSessionAttendance(sessionId || undefined);
+  const { data: courseMarks = [] } = useCourseAttendance(courseId || undefined);
+  const [heldOn, setHeldOn] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [topic, setTopic] = useState('');
+  const [marks, setMarks] = useState<Record<string, AttendanceStatus>>({});
+  const takeMutation = useTakeAttendance();
+  const deleteMutation = useDeleteClassSession();
+
+  const course = courses.find(c => c.id === courseId);
+  const session = sessions.find(s => s.id === sessionId);
+  const byStudent = groupBy(courseMarks, m => m.student_id);
+
+  useEffect(() => {
+    setSectionId('');
+    setSessionId('');
+  }, [courseId]);
+
+  // An existing session brings back its date, topic, section and marks
+  useEffect(() => {
+    if (!session) {
+      setTopic('');
+      return setMarks({});
+    }
+    setHeldOn(session.held_on);
+    setTopic(session.topic ?? '');
+    setSectionId(session.section_id ?? '');
+  }, [session]);
+
+  useEffect(() => {
+    if (sessionMarks) setMarks(Object.fromEntries(sessionMarks.map(m => [m.student_id, m.status])));
+  }, [sessionMarks]);
+
+  const unmarked = roster.filter(s => !marks[s.id]).length;
+
+  const markAll = (status: AttendanceStatus) => setMarks(Object.fromEntries(roster.map(s => [s.id, status])));
+
+  const save = () => {
+    if (!user || !course) return;
+    if (unmarked > 0) return toast.error(`${unmarked} students are not marked yet`);
+    const values = { course_id: course.id, section_id: sectionId || null, teacher_id: user.id, held_on: heldOn, topic: topic || null };
+    // Only the students on screen are written, so a section's roll call leaves the rest of the course alone
+    const rosterMarks = Object.fromEntries(roster.map(s => [s.id, marks[s.id]]));
+    takeMutation.mutate({ sessionId: session?.id, values, marks: rosterMarks }, {
+      onSuccess: saved => {
+        toast.success('Attendance saved');
+        setSessionId(saved.id);
+      },
+    });
+  };
+
+  const deleteSession = () => {
+    if (!session || !confirm(`Delete the session on ${format(new Date(`${session.held_on}T00:00`), 'PP')} and its attendance?`)) return;
+    setSessionId('');
+    deleteMutation.mutate(session, { onSuccess: () => toast.success('Session deleted') });
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Attendance</h1>
+      </div>
+
+      {/* Session details */}
+      <div className="bg-card p-4 rounded-lg shadow grid sm:grid-cols-5 gap-2 mb-6">
+        <select className="w-full p-2 border rounded bg-background" value={courseId} onChange={e => setCourseId(e.target.value)}>
+          <option value="">Select course</option>
+          {courses.map(c => <option key={c.id} value={c.id}>{courseLabel(c)}</option>)}
+        </select>
+        <select className="w-full p-2 border rounded bg-background" value={sessionId} onChange={e => setSessionId(e.target.value)} disabled={!courseId}>
+          <option value="">New session</option>
+          {sessions.map(s => <option key={s.id} value={s.id}>{format(new Date(`${s.held_on}T00:00`), 'PP')}{s.topic ? ` · ${s.topic}` : ''}</option>)}
+        </select>
+        <select className="w-full p-2 border rounded bg-background" value={sectionId} onChange={e => setSectionId(e.target.value)} disabled={sections.length === 0 || !!session}>
+          <option value="">All sections</option>
+          {sections.map(sec => <option key={sec.id} value={sec.id}>{sec.name}</option>)}
+        </select>
+        <Input type="date" value={heldOn} onChange={e => setHeldOn(e.target.value)} />
+        <Input placeholder="Topic" value={topic} onChange={e => setTopic(e.target.value)} />
+      </div>
+
+      {/* Roll call */}
+      <div className="bg-card p-4 rounded-lg shadow overflow-x-auto">
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+          <p className="text-sm text-muted-foreground">
+            {course ? `Students below ${course.min_attendance}% attendance are highlighted` : 'Select a course to take attendance'}
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => markAll('present')} disabled={roster.length === 0}>Mark all present</Button>
+            {session && <Button size="sm" variant="destructive" onClick={deleteSession}>Delete session</Button>}
+          </div>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="p-2">Roll</th>
+              <th className="p-2">Name</th>
+              <th className="p-2">Status</th>
+              <th className="p-2">Overall</th>
+            </tr>
+          </thead>
+          <tbody>
+            {roster.map(s => {
+              const summary = attendanceSummary(byStudent[s.id] ?? []);
+              const low = course && isBelowMinimum(summary.percent, course.min_attendance);
+              return (
+                <tr key={s.id} className={cn('border-b last:border-0', low && 'bg-destructive/10')}>
+                  <td className="p-2 text-muted-foreground">{s.roll_number ?? '—'}</td>
+                  <td className="p-2">{s.full_name}</td>
+                  <td className="p-2">
+                    <div className="flex gap-1">
+                      {ATTENDANCE_STATUSES.map(status => (
+                        <button
+                          key={status}
+                          className={cn('px-2 py-1 rounded text-xs capitalize', marks[s.id] === status ? statusStyles[status] : 'bg-muted hover:bg-accent')}
+                          onClick={() => setMarks(m => ({ ...m, [s.id]: status }))}
+                        >
+                          {status}
+                        </button>
+                      ))}
+                    </div>
+                  </td>
+                  <td className={cn('p-2', low && 'text-destructive font-medium')}>
+                    {summary.percent !== null ? `${summary.percent.toFixed(0)}% (${summary.attended}/${summary.held})` : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {courseId && roster.length === 0 && <p className="text-muted-foreground p-2">No students in this course</p>}
+
+        <div className="flex items-center gap-4 mt-4">
+          <Button onClick={save} disabled={takeMutation.isPending || roster.length === 0}>{takeMutation.isPending ? 'Saving...' : 'Save attendance'}</Button>
+          {roster.length > 0 && unmarked > 0 && <span className="text-sm text-muted-foreground">{unmarked} not marked</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Attendance;
@@ -2,20 +2,32 @@
  * Auth Page - Simple login and signup
  */
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, Location, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
 
+const emptyDetails = { rollNumber: '', course: '', department: '' };
+
 const Auth = () => {
   const [isLogin, setIsLogin] = useState(true);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
   const [role, setRole] = useState<'student' | 'teacher'>('student');
+  const [details, setDetails] = useState(emptyDetails);
   const [loading, setLoading] = useState(false);
+  // Set once we have emailed a confirmation or sign-in link and are waiting on the user
+  const [sent, setSent] = useState<{ email: string; kind: 'confirmation' | 'login' } | null>(null);
   const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+  // Protected pages send visitors here with the page they wanted; go back there afterwards
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/dashboard';
+  const emailRedirectTo = `${window.location.origin}${redirectTo}`;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -23,20 +35,74 @@ const Auth = () => {
 
     if (isLogin) {
       const { error } = await supabase.auth.signInWithPassword({ email, password });
-      if (error) toast.error(error.message);
-      else navigate('/dashboard');
+      if (error?.code === 'email_not_confirmed') setSent({ email, kind: 'confirmation' });
+      else if (error) toast.error(error.message);
+      else navigate(redirectTo, { replace: true });
     } else {
-      const { data, error } = await supabase.auth.signUp({ email, password });
-      if (error) { toast.error(error.message); }
-      else if (data.user) {
-        await supabase.from('profiles').insert({ id: data.user.id, email, full_name: name, role });
+      // The handle_new_user trigger builds the profile from this metadata
+      const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: {
+          emailRedirectTo,
+          data: role === 'student'
+            ? { full_name: name, role, roll_number: details.rollNumber, course: details.course }
+            : { full_name: name, role, department: details.department },
+        },
+      });
+      if (error) toast.error(error.message);
+      // With confirmations on, an address that is already registered comes back without identities
+      else if (data.user?.identities?.length === 0) toast.error('An account with this email already exists');
+      else if (!data.session) setSent({ email, kind: 'confirmation' });
+      else {
         toast.success('Account created!');
-        navigate('/dashboard');
+        navigate(redirectTo, { replace: true });
       }
     }
     setLoading(false);
   };
 
+  // Passwordless login; only existing accounts get a link
+  const sendLoginLink = async (to: string) => {
+    if (!to) return toast.error('Enter your email first');
+    setLoading(true);
+    const { error } = await supabase.auth.signInWithOtp({ email: to, options: { shouldCreateUser: false, emailRedirectTo } });
+    setLoading(false);
+    if (error) return toast.error(error.message);
+    setSent({ email: to, kind: 'login' });
+    toast.success('Login link sent');
+  };
+
+  const resend = async () => {
+    if (sent.kind === 'login') return sendLoginLink(sent.email);
+    setLoading(true);
+    const { error } = await supabase.auth.resend({ type: 'signup', email: sent.email, options: { emailRedirectTo } });
+    setLoading(false);
+    if (error) toast.error(error.message);
+    else toast.success('Confirmation email sent');
+  };
+
+  if (user) return <Navigate to={redirectTo} replace />;
+
+  if (sent) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 to-secondary/10">
+        <div className="bg-card p-8 rounded-lg shadow-lg w-80 space-y-4 text-center">
+          <h1 className="text-2xl font-bold">Check your email</h1>
+          <p className="text-sm text-muted-foreground">
+            We sent a {sent.kind === 'login' ? 'login' : 'confirmation'} link to <span className="font-medium text-foreground">{sent.email}</span>. Open it to finish signing in.
+          </p>
+          <Button className="w-full" variant="outline" onClick={resend} disabled={loading}>
+            {loading ? 'Sending...' : 'Resend email'}
+          </Button>
+          <button type="button" className="text-sm text-primary underline" onClick={() => { setSent(null); setIsLogin(true); }}>
+            Back to login
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 to-secondary/10">
       <form onSubmit={handleSubmit} className="bg-card p-8 rounded-lg shadow-lg w-80 space-y-4">
@@ -47,8 +113,16 @@ const Auth = () => {
             <Input placeholder="Full Name" value={name} onChange={e => setName(e.target.value)} required />
             <select className="w-full p-2 border rounded" value={role} onChange={e => setRole(e.target.value as 'student' | 'teacher')}>
               <option value="student">Student</option>
-              <option value="teacher">Teacher</option>
+              <option value="teacher">Teacher (needs admin approval)</option>
             </select>
+            {role === 'student' ? (
+              <>
+                <Input placeholder="Roll Number" value={details.rollNumber} onChange={e => setDetails({ ...details, rollNumber: e.target.value })} />
+                <Input placeholder="Course" value={details.course} onChange={e => setDetails({ ...details, course: e.target.value })} />
+              </>
+            ) : (
+              <Input placeholder="Department" value={details.department} onChange={e => setDetails({ ...details, department: e.target.value })} />
+            )}
           </>
         )}
         
@@ -58,6 +132,15 @@ const Auth = () => {
         <Button type="submit" className="w-full" disabled={loading}>
           {loading ? 'Loading...' : isLogin ? 'Login' : 'Sign Up'}
         </Button>
+
+        {isLogin && (
+          <div className="flex justify-between text-sm">
+            <button type="button" className="text-primary underline" onClick={() => sendLoginLink(email)} disabled={loading}>
+              Email me a login link
+            </button>
+            <Link to="/forgot-password" className="text-primary underline">Forgot password?</Link>
+          </div>
+        )}
         
         <p className="text-center text-sm">
           {isLogin ? "Don't have account? " : "Have account? "}
@@ -0,0 +1,107 @@
+/**
+ * Calendar - Month view of classes, exams, assignment deadlines, fee due dates and holidays
+ */
+import { useMemo, useState } from 'react';
+import { addMonths, eachDayOfInterval, endOfMonth, endOfWeek, format, isSameMonth, startOfMonth, startOfWeek } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { CalendarEvent, dateKey, EventKind } from '@/lib/calendar';
+import { groupBy } from '@/lib/grading';
+import { useCalendarEvents } from '@/hooks/use-calendar-events';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import CalendarFeed from '@/components/calendar/CalendarFeed';
+import TermsPanel from '@/components/calendar/TermsPanel';
+
+const kindStyles: Record<EventKind, string> = {
+  class: 'bg-primary/10 text-primary',
+  exam: 'bg-destructive/10 text-destructive',
+  assignment: 'bg-warning/10 text-warning',
+  fee: 'bg-secondary text-secondary-foreground',
+  holiday: 'bg-success/10 text-success',
+};
+
+const MAX_PER_DAY = 3;
+
+const Calendar = () => {
+  const { profile } = useAuth();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selected, setSelected] = useState(() => dateKey(new Date()));
+
+  // Whole weeks, so the grid starts on Sunday and ends on Saturday
+  const [from, to] = useMemo(() => [startOfWeek(month), endOfWeek(endOfMonth(month))], [month]);
+  const events = useCalendarEvents(from, to);
+  const byDate = groupBy(events, e => e.date);
+  const days = eachDayOfInterval({ start: from, end: to });
+  const today = dateKey(new Date());
+
+  const goTo = (next: Date) => {
+    setMonth(startOfMonth(next));
+    setSelected(dateKey(next));
+  };
+
+  const eventLine = (e: CalendarEvent) => (
+    <div key={e.id} className={cn('p-2 rounded text-sm', kindStyles[e.kind])}>
+      <p className="font-medium">{e.time && `${e.time} · `}{e.title}</p>
+      {e.detail && <p className="text-xs opacity-80">{e.detail}</p>}
+    </div>
+  );
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Calendar</h1>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => goTo(addMonths(month, -1))}>Previous</Button>
+          <Button variant="outline" onClick={() => goTo(new Date())}>Today</Button>
+          <Button variant="outline" onClick={() => goTo(addMonths(month, 1))}>Next</Button>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* Month grid */}
+        <div className="bg-card p-4 rounded-lg shadow lg:col-span-2">
+          <h2 className="text-xl font-semibold mb-4">{format(month, 'MMMM yyyy')}</h2>
+          <div className="grid grid-cols-7 gap-1 text-sm">
+            {days.slice(0, 7).map(d => <div key={d.getDay()} className="p-1 text-center text-muted-foreground">{format(d, 'EEE')}</div>)}
+            {days.map(d => {
+              const date = dateKey(d);
+              const dayEvents = byDate[date] ?? [];
+              return (
+                <button
+                  key={date}
+                  className={cn(
+                    'min-h-24 p-1 rounded border text-left align-top space-y-1',
+                    !isSameMonth(d, month) && 'opacity-50',
+                    date === selected ? 'border-primary' : 'hover:bg-muted',
+                  )}
+                  onClick={() => setSelected(date)}
+                >
+                  <span className={cn('text-xs', date === today && 'font-bold text-primary')}>{format(d, 'd')}</span>
+                  {dayEvents.slice(0, MAX_PER_DAY).map(e => (
+                    <span key={e.id} className={cn('block truncate rounded px-1 text-xs', kindStyles[e.kind])}>{e.title}</span>
+                  ))}
+                  {dayEvents.length > MAX_PER_DAY && <span className="block text-xs text-muted-foreground">+{dayEvents.length - MAX_PER_DAY} more</span>}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Selected day */}
+          <div className="bg-card p-4 rounded-lg shadow space-y-2">
+            <h2 className="text-xl font-semibold">{format(new Date(`${selected}T00:00`), 'EEEE, PP')}</h2>
+            {(byDate[selected] ?? []).map(eventLine)}
+            {!byDate[selected] && <p className="text-muted-foreground">Nothing scheduled</p>}
+          </div>
+
+          <CalendarFeed />
+          {profile?.role === 'admin' && <TermsPanel />}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Calendar;
@@ -0,0 +1,275 @@
+/**
+ * Courses - Admins manage courses, sections and teachers; course teachers manage enrollment
+ */
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTerm } from '@/contexts/TermContext';
+import { courseLabel } from '@/lib/courses';
+import { cn } from '@/lib/utils';
+import { useAssignTeacher, useCourseTeachers, useRemoveTeacher } from '@/repositories/course-teachers';
+import { useCreateCourse, useDeleteCourse, useMyCourses, useUpdateCourse } from '@/repositories/courses';
+import { useChangeSection, useEnroll, useEnrollments, useUnenroll } from '@/repositories/enrollments';
+import { useStudents, useTeachers } from '@/repositories/profiles';
+import { useCreateSection, useDeleteSection, useSections } from '@/repositories/sections';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+const emptyCourse = { code: '', name: '', department: '' };
+
+// Shared mutation options: report success (errors are reported by the query client)
+const notify = (message: string) => ({ onSuccess: () => toast.success(message) });
+
+const Courses = () => {
+  const { profile } = useAuth();
+  const { termId, term } = useTerm();
+  const { courses } = useMyCourses();
+  const [selectedId, setSelectedId] = useState('');
+  const [courseForm, setCourseForm] = useState(emptyCourse);
+  const [sectionName, setSectionName] = useState('');
+  const [teacherId, setTeacherId] = useState('');
+  const [studentId, setStudentId] = useState('');
+  const [enrollSectionId, setEnrollSectionId] = useState('');
+  const [minAttendance, setMinAttendance] = useState('');
+
+  const isAdmin = profile?.role === 'admin';
+  const selected = courses.find(c => c.id === selectedId);
+  const { data: sections = [] } = useSections(selectedId || undefined);
+  const { data: teachers = [] } = useCourseTeachers(selectedId || undefined);
+  const { data: enrollments = [] } = useEnrollments(selectedId || undefined);
+  const { data: allStudents = [] } = useStudents();
+  const { data: allTeachers = [] } = useTeachers(isAdmin);
+  const createCourseMutation = useCreateCourse();
+  const updateCourseMutation = useUpdateCourse();
+  const deleteCourseMutation = useDeleteCourse();
+  const createSectionMutation = useCreateSection();
+  const deleteSectionMutation = useDeleteSection();
+  const assignTeacherMutation = useAssignTeacher();
+  const removeTeacherMutation = useRemoveTeacher();
+  const enrollMutation = useEnroll();
+  const unenrollMutation = useUnenroll();
+  const changeSectionMutation = useChangeSection();
+
+  useEffect(() => {
+    setMinAttendance(selected?.min_attendance.toString() ?? '');
+  }, [selected?.min_attendance]);
+
+  const createCourse = (e: React.FormEvent) => {
+    e.preventDefault();
+    createCourseMutation.mutate({
+      code: courseForm.code.trim(),
+      name: courseForm.name.trim(),
+      department: courseForm.department.trim() || null,
+    }, notify('Course created'));
+    setCourseForm(emptyCourse);
+  };
+
+  const deleteCourse = () => {
+    if (!selected || !confirm(`Delete ${selected.code}? Its sections, enrollments and assignments are removed too.`)) return;
+    setSelectedId('');
+    deleteCourseMutation.mutate(selected.id, notify('Course deleted'));
+  };
+
+  const saveMinAttendance = () => {
+    const value = Number(minAttendance);
+    if (minAttendance === '' || !Number.isInteger(value) || value < 0 || value > 100) return toast.error('Minimum attendance must be a whole number from 0 to 100');
+    updateCourseMutation.mutate({ id: selectedId, values: { min_attendance: value } }, notify('Minimum attendance updated'));
+  };
+
+  const addSection = () => {
+    if (!sectionName.trim()) return;
+    createSectionMutation.mutate({ course_id: selectedId, name: sectionName.trim() }, notify('Section added'));
+    setSectionName('');
+  };
+
+  const addTeacher = () => {
+    if (!teacherId) return;
+    assignTeacherMutation.mutate({ courseId: selectedId, teacherId }, notify('Teacher assigned'));
+    setTeacherId('');
+  };
+
+  const enroll = () => {
+    if (!studentId) return;
+    // Enrolls into the selected term; with every term selected the database picks the active one
+    enrollMutation.mutate({ course_id: selectedId, student_id: studentId, section_id: enrollSectionId || null, term_id: termId || null }, notify('Student enrolled'));
+    setStudentId('');
+  };
+
+  const enrolledIds = new Set(enrollments.map(e => e.student_id));
+  const assignedIds = new Set(teachers.map(t => t.teacher_id));
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Courses</h1>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        {/* Course list */}
+        <div className="bg-card p-4 rounded-lg shadow space-y-4">
+          {isAdmin && (
+            <form onSubmit={createCourse} className="space-y-2 p-3 bg-muted rounded">
+              <Input placeholder="Code (e.g. CSE-101)" value={courseForm.code} onChange={e => setCourseForm({ ...courseForm, code: e.target.value })} required />
+              <Input placeholder="Name" value={courseForm.name} onChange={e => setCourseForm({ ...courseForm, name: e.target.value })} required />
+              <Input placeholder="Department" value={courseForm.department} onChange={e => setCourseForm({ ...courseForm, department: e.target.value })} />
+              <Button size="sm" type="submit">Create course</Button>
+            </form>
+          )}
+          <div className="space-y-1">
+            {courses.map(c => (
+              <button
+                key={c.id}
+                className={cn('w-full p-2 rounded text-left text-sm', c.id === selectedId ? 'bg-accent' : 'hover:bg-muted')}
+                onClick={() => setSelectedId(c.id)}
+              >
+                <span className="font-medium">{courseLabel(c)}</span>
+                {c.department && <span className="block text-xs text-muted-foreground">{c.department}</span>}
+              </button>
+            ))}
+            {courses.length === 0 && <p className="text-muted-foreground">No courses</p>}
+          </div>
+        </div>
+
+        {/* Course details */}
+        {selected && (
+          <div className="md:col-span-2 space-y-6">
+            <div className="bg-card p-4 rounded-lg shadow">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold">{courseLabel(selected)}</h2>
+                {isAdmin && <Button size="sm" variant="destructive" onClick={deleteCourse}>Delete course</Button>}
+              </div>
+
+              <div className="grid sm:grid-cols-2 gap-4">
+                {/* Sections */}
+                <div className="space-y-2">
+                  <h3 className="font-medium">Sections</h3>
+                  {sections.map(sec => (
+                    <div key={sec.id} className="flex justify-between items-center p-2 bg-muted rounded text-sm">
+                      {sec.name}
+                      {isAdmin && <Button size="sm" variant="ghost" onClick={() => deleteSectionMutation.mutate(sec, notify('Section removed'))}>Remove</Button>}
+                    </div>
+                  ))}
+                  {sections.length === 0 && <p className="text-sm text-muted-foreground">No sections</p>}
+                  {isAdmin && (
+                    <div className="flex gap-2">
+                      <Input placeholder="Section name" value={sectionName} onChange={e => setSectionName(e.target.value)} />
+                      <Button size="sm" className="h-10" onClick={addSection}>Add</Button>
+                    </div>
+                  )}
+                </div>
+
+                {/* Teachers */}
+                <div className="space-y-2">
+                  <h3 className="font-medium">Teachers</h3>
+                  {teachers.map(t => (
+                    <div key={t.teacher_id} className="flex justify-between items-center p-2 bg-muted rounded text-sm">
+                      {t.teacher?.full_name}
+                      {isAdmin && (
+                        <Button size="sm" variant="ghost" onClick={() => removeTeacherMutation.mutate({ courseId: selectedId, teacherId: t.teacher_id }, notify('Teacher removed'))}>
+                          Remove
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                  {teachers.length === 0 && <p className="text-sm text-muted-foreground">No teachers assigned</p>}
+                  {isAdmin && (
+                    <div className="flex gap-2">
+                      <select className="w-full p-2 border rounded bg-background" value={teacherId} onChange={e => setTeacherId(e.target.value)}>
+                        <option value="">Select teacher</option>
+                        {allTeachers.filter(t => !assignedIds.has(t.id)).map(t => <option key={t.id} value={t.id}>{t.full_name}</option>)}
+                      </select>
+                      <Button size="sm" className="h-10" onClick={addTeacher}>Assign</Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Promotion at term rollover */}
+              <div className="flex items-center gap-2 mt-4 text-sm">
+                <span className="font-medium">Next course</span>
+                {isAdmin ? (
+                  <select
+                    className="p-2 border rounded bg-background"
+                    value={selected.next_course_id ?? ''}
+                    onChange={e => updateCourseMutation.mutate({ id: selectedId, values: { next_course_id: e.target.value || null } }, notify('Next course updated'))}
+                  >
+                    <option value="">None (students finish here)</option>
+                    {courses.filter(c => c.id !== selectedId).map(c => <option key={c.id} value={c.id}>{courseLabel(c)}</option>)}
+                  </select>
+                ) : (
+                  <span>{selected.next_course_id ? courseLabel(courses.find(c => c.id === selected.next_course_id)) : 'None'}</span>
+                )}
+              </div>
+
+              {/* Attendance threshold */}
+              <div className="flex items-center gap-2 mt-4 text-sm">
+                <span className="font-medium">Minimum attendance</span>
+                {isAdmin ? (
+                  <>
+                    <Input type="number" min="0" max="100" className="w-24" value={minAttendance} onChange={e => setMinAttendance(e.target.value)} />
+                    <span>%</span>
+                    <Button size="sm" variant="outline" className="h-10" onClick={saveMinAttendance} disabled={updateCourseMutation.isPending}>Save</Button>
+                  </>
+                ) : (
+                  <span>{selected.min_attendance}%</span>
+                )}
+              </div>
+            </div>
+
+            {/* Enrollments */}
+            <div className="bg-card p-4 rounded-lg shadow overflow-x-auto">
+              <h3 className="text-xl font-semibold mb-4">Enrolled students ({enrollments.length}){term && <span className="text-sm font-normal text-muted-foreground"> · {term.name}</span>}</h3>
+              <div className="flex gap-2 mb-4">
+                <select className="w-full p-2 border rounded bg-background" value={studentId} onChange={e => setStudentId(e.target.value)}>
+                  <option value="">Select student to enroll</option>
+                  {allStudents.filter(s => !enrolledIds.has(s.id)).map(s => (
+                    <option key={s.id} value={s.id}>{s.full_name}{s.roll_number ? ` (${s.roll_number})` : ''}</option>
+                  ))}
+                </select>
+                <select className="p-2 border rounded bg-background" value={enrollSectionId} onChange={e => setEnrollSectionId(e.target.value)}>
+                  <option value="">No section</option>
+                  {sections.map(sec => <option key={sec.id} value={sec.id}>{sec.name}</option>)}
+                </select>
+                <Button className="shrink-0" onClick={enroll}>Enroll</Button>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="p-2">Name</th>
+                    <th className="p-2">Roll</th>
+                    <th className="p-2">Section</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {enrollments.map(e => (
+                    <tr key={e.id} className="border-b last:border-0">
+                      <td className="p-2">{e.student?.full_name}</td>
+                      <td className="p-2 text-muted-foreground">{e.student?.roll_number ?? '—'}</td>
+                      <td className="p-2">
+                        <select
+                          className="p-1 border rounded bg-background"
+                          value={e.section_id ?? ''}
+                          onChange={ev => changeSectionMutation.mutate({ enrollment: e, sectionId: ev.target.value || null }, notify('Section updated'))}
+                        >
+                          <option value="">—</option>
+                          {sections.map(sec => <option key={sec.id} value={sec.id}>{sec.name}</option>)}
+                        </select>
+                      </td>
+                      <td className="p-2 text-right">
+                        <Button size="sm" variant="ghost" onClick={() => unenrollMutation.mutate(e, notify('Student unenrolled'))}>Unenroll</Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Courses;
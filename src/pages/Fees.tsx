@@ -0,0 +1,87 @@
+/**
+ * Fees - Students see their outstanding and paid fee items per term
+ */
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTerm } from '@/contexts/TermContext';
+import { formatAmount, isOverdue, isPaid, sumAmounts } from '@/lib/payments';
+import { groupByTerm } from '@/lib/terms';
+import { useStudentPayments } from '@/repositories/payments';
+
+const Fees = () => {
+  const { user } = useAuth();
+  const { terms } = useTerm();
+  const { data: payments = [] } = useStudentPayments(user?.id);
+
+  // Latest term first; totals above still cover every term
+  const groups = useMemo(() => groupByTerm(payments, terms, p => p.semester || 'Unassigned').reverse(), [payments, terms]);
+  const outstanding = payments.filter(p => !isPaid(p));
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Fees</h1>
+      </div>
+
+      {/* Totals */}
+      <div className="grid sm:grid-cols-3 gap-4 mb-6">
+        <div className="bg-card p-4 rounded-lg shadow">
+          <p className="text-sm text-muted-foreground">Outstanding</p>
+          <p className="text-2xl font-bold">{formatAmount(sumAmounts(outstanding))}</p>
+        </div>
+        <div className="bg-card p-4 rounded-lg shadow">
+          <p className="text-sm text-muted-foreground">Overdue</p>
+          <p className="text-2xl font-bold text-destructive">{formatAmount(sumAmounts(payments.filter(p => isOverdue(p))))}</p>
+        </div>
+        <div className="bg-card p-4 rounded-lg shadow">
+          <p className="text-sm text-muted-foreground">Paid</p>
+          <p className="text-2xl font-bold text-success">{formatAmount(sumAmounts(payments.filter(isPaid)))}</p>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {groups.map(({ name, rows: items }) => (
+          <div key={name} className="bg-card p-4 rounded-lg shadow overflow-x-auto">
+            <div className="flex justify-between items-baseline mb-4">
+              <h2 className="text-xl font-semibold">{name}</h2>
+              <span className="text-sm text-muted-foreground">
+                Paid {formatAmount(sumAmounts(items.filter(isPaid)))} of {formatAmount(sumAmounts(items))}
+              </span>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="p-2">Type</th>
+                  <th className="p-2">Amount</th>
+                  <th className="p-2">Due</th>
+                  <th className="p-2">Status</th>
+                  <th className="p-2">Paid on</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(p => (
+                  <tr key={p.id} className="border-b last:border-0">
+                    <td className="p-2 capitalize">{p.payment_type}</td>
+                    <td className="p-2">{formatAmount(p.amount)}</td>
+                    <td className="p-2">{format(new Date(`${p.due_date}T00:00`), 'PP')}</td>
+                    <td className="p-2">
+                      {isPaid(p) ? <span className="text-success">Paid</span>
+                        : isOverdue(p) ? <span className="text-destructive font-medium">Overdue</span>
+                        : <span className="text-muted-foreground">Pending</span>}
+                    </td>
+                    <td className="p-2 text-muted-foreground">{p.paid_date ? format(new Date(`${p.paid_date}T00:00`), 'PP') : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+        {payments.length === 0 && <p className="text-muted-foreground">No fee items</p>}
+      </div>
+    </div>
+  );
+};
+
+export default Fees;
@@ -0,0 +1,25 @@
+/**
+ * Forbidden - Shown when a signed-in user opens a page their role cannot use
+ */
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+
+const Forbidden = () => {
+  const { profile } = useAuth();
+
+  return (
+    <div className="flex flex-col items-center justify-center text-center space-y-4 py-24">
+      <h1 className="text-4xl font-bold">403</h1>
+      <p className="text-lg text-muted-foreground">You don't have access to this page.</p>
+      {profile?.role === 'teacher' && !profile.approved && (
+        <p className="text-sm text-muted-foreground">Teacher tools unlock once an admin approves your account.</p>
+      )}
+      <Button asChild>
+        <Link to="/dashboard">Go to dashboard</Link>
+      </Button>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -0,0 +1,51 @@
+/**
+ * Forgot Password - Emails a link that opens the reset-password page
+ */
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+const ForgotPassword = () => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: `${window.location.origin}/reset-password` });
+    setLoading(false);
+    if (error) return toast.error(error.message);
+    setSent(true);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 to-secondary/10">
+      <form onSubmit={handleSubmit} className="bg-card p-8 rounded-lg shadow-lg w-80 space-y-4">
+        <h1 className="text-2xl font-bold text-center">Forgot password</h1>
+        {sent ? (
+          // Same message whether or not the address has an account
+          <p className="text-sm text-muted-foreground text-center">
+            If <span className="font-medium text-foreground">{email}</span> has an account, a reset link is on its way.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">Enter your email and we'll send you a link to choose a new password.</p>
+            <Input type="email" placeholder="Email" value={email} onChange={e => setEmail(e.target.value)} required />
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? 'Sending...' : 'Send reset link'}
+            </Button>
+          </>
+        )}
+        <p className="text-center text-sm">
+          <Link to="/auth" className="text-primary underline">Back to login</Link>
+        </p>
+      </form>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -0,0 +1,180 @@
+/**
+ * Grade Assignment - Teacher workbench for grading one assignment's submissions
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useQueryClient } from '@tanstack/react-query';
+import { submissionState, SubmissionState, SubmissionStatus } from '@/lib/submissions';
+import { courseLabel } from '@/lib/courses';
+import { isFullyScored, rubricTotal, ScoredCriterion } from '@/lib/rubrics';
+import { useRealtime } from '@/hooks/use-realtime';
+import { useAssignment } from '@/repositories/assignments';
+import { submissionKeys, useAssignmentSubmissions, useGradeSubmission } from '@/repositories/assignment-submissions';
+import { useRoster } from '@/repositories/enrollments';
+import { useStudents } from '@/repositories/profiles';
+import { useRubrics } from '@/repositories/rubrics';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import RubricGrid from '@/components/rubrics/RubricGrid';
+import SubmissionFileLink from '@/components/assignments/SubmissionFileLink';
+import { toast } from 'sonner';
+
+const stateStyles: Record<SubmissionState, string> = {
+  pending: 'text-muted-foreground',
+  missing: 'text-destructive',
+  late: 'text-warning',
+  submitted: 'text-primary',
+  graded: 'text-success',
+  returned: 'text-success',
+};
+
+const GradeAssignment = () => {
+  const { id } = useParams();
+  const queryClient = useQueryClient();
+  const { data: assignment } = useAssignment(id);
+  const { data: submissions = {} } = useAssignmentSubmissions(id);
+  const gradeMutation = useGradeSubmission();
+  // Everyone enrolled in the assignment's course is expected to submit
+  const { roster } = useRoster(assignment?.course_id ?? undefined);
+  const { data: allStudents = [] } = useStudents();
+  const students = assignment?.course_id ? roster : allStudents;
+  const [index, setIndex] = useState(0);
+  const [grade, setGrade] = useState('');
+  const [feedback, setFeedback] = useState('');
+  const { data: rubrics = [] } = useRubrics();
+  const rubric = rubrics.find(r => r.id === assignment?.rubric_id);
+  const [scores, setScores] = useState<ScoredCriterion[]>([]);
+
+  // New and resubmitted work shows up without a reload
+  useRealtime('assignment_submissions', () => queryClient.invalidateQueries({ queryKey: submissionKeys.byAssignment(id) }), {
+    filter: `assignment_id=eq.${id}`,
+    enabled: !!id,
+  });
+
+  const student = students[index];
+  const submission = student ? submissions[student.id] : undefined;
+
+  // Only reset the form when this student's saved values change, not on every live refresh
+  useEffect(() => {
+    setGrade(submission?.grade?.toString() ?? '');
+    setFeedback(submission?.feedback ?? '');
+  }, [submission?.id, submission?.grade, submission?.feedback]);
+
+  // A graded submission shows the rubric it was graded with, even if the rubric changed since
+  useEffect(() => {
+    if (submission?.rubric_scores) setScores(submission.rubric_scores as ScoredCriterion[]);
+    else setScores(rubric ? rubric.criteria.map(c => ({ ...c, selected: null })) : []);
+  }, [submission?.id, submission?.rubric_scores, rubric]);
+
+  const selectLevel = (criterion: number, level: number) => {
+    const next = scores.map((c, i) => (i === criterion ? { ...c, selected: level } : c));
+    setScores(next);
+    setGrade(rubricTotal(next).toString());
+  };
+
+  const move = useCallback((step: number) => {
+    setIndex(i => Math.min(Math.max(i + step, 0), students.length - 1));
+  }, [students.length]);
+
+  // Alt+Arrow keys move between students, even while typing in the grade fields
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!e.altKey) return;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowRight') { e.preventDefault(); move(1); }
+      if (e.key === 'ArrowUp' || e.key === 'ArrowLeft') { e.preventDefault(); move(-1); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [move]);
+
+  const saveGrade = (status: SubmissionStatus) => {
+    if (!submission) return;
+    const byRubric = scores.length > 0;
+    if (byRubric && !isFullyScored(scores)) return toast.error('Pick a level for every criterion');
+    if (!byRubric && (grade === '' || isNaN(Number(grade)))) return toast.error('Enter a numeric grade');
+    const values = byRubric ? { grade: rubricTotal(scores), rubricScores: scores } : { grade: Number(grade), rubricScores: null };
+    gradeMutation.mutate({ submission, ...values, feedback: feedback || null, status }, {
+      onSuccess: () => toast.success(status === 'returned' ? 'Returned to student' : 'Grade saved'),
+    });
+    move(1);
+  };
+
+  if (!assignment) return <div className="text-muted-foreground">Loading...</div>;
+
+  const submittedCount = students.filter(s => submissions[s.id]).length;
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Grading: {assignment.title}</h1>
+          <p className="text-sm text-muted-foreground">
+            {courseLabel(assignment.course)} · {assignment.due_date ? `Due ${format(new Date(assignment.due_date), 'PPp')}` : 'No due date'} · {submittedCount}/{students.length} submitted
+          </p>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        {/* Student list */}
+        <div className="bg-card p-4 rounded-lg shadow space-y-1">
+          {students.map((s, i) => {
+            const state = submissionState(submissions[s.id], assignment);
+            return (
+              <button
+                key={s.id}
+                className={cn('w-full flex justify-between p-2 rounded text-left text-sm', i === index ? 'bg-accent' : 'hover:bg-muted')}
+                onClick={() => setIndex(i)}
+              >
+                <span className="font-medium truncate">{s.full_name}</span>
+                <span className={cn('capitalize', stateStyles[state])}>{state}</span>
+              </button>
+            );
+          })}
+          {students.length === 0 && <p className="text-muted-foreground">No students in this course</p>}
+        </div>
+
+        {/* Grading panel */}
+        {student && (
+          <div className="bg-card p-4 rounded-lg shadow md:col-span-2 space-y-4">
+            <div className="flex justify-between items-start">
+              <div>
+                <h2 className="text-xl font-semibold">{student.full_name}</h2>
+                <p className="text-sm text-muted-foreground">{student.roll_number ? `${student.roll_number} · ` : ''}{student.email}</p>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => move(-1)} disabled={index === 0}>Previous</Button>
+                <Button size="sm" variant="outline" onClick={() => move(1)} disabled={index === students.length - 1}>Next</Button>
+              </div>
+            </div>
+
+            {submission ? (
+              <>
+                <p className="text-sm">
+                  <SubmissionFileLink submission={submission} className="text-primary underline" />
+                  {submission.submitted_at && ` · submitted ${format(new Date(submission.submitted_at), 'PPp')}`}
+                  {submissionState(submission, assignment) === 'late' && <span className="text-warning font-medium"> · Late</span>}
+                </p>
+                {scores.length > 0 && <RubricGrid scores={scores} onSelect={selectLevel} />}
+                <Input type="number" step="any" placeholder="Grade" value={grade} onChange={e => setGrade(e.target.value)} readOnly={scores.length > 0} />
+                <Textarea placeholder="Feedback" value={feedback} onChange={e => setFeedback(e.target.value)} />
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => saveGrade('graded')} disabled={gradeMutation.isPending}>Save grade</Button>
+                  <Button size="sm" variant="secondary" onClick={() => saveGrade('returned')} disabled={gradeMutation.isPending}>Return to student</Button>
+                </div>
+              </>
+            ) : (
+              <p className="text-muted-foreground">No submission yet.</p>
+            )}
+            <p className="text-xs text-muted-foreground">Tip: Alt + ↑/↓ moves between students.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GradeAssignment;
@@ -0,0 +1,232 @@
+/**
+ * Gradebook - Teachers enter exam marks for a whole class at once
+ */
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { EXAM_TYPES, letterGrade, percentage, subjectGrade } from '@/lib/grading';
+import { courseLabel } from '@/lib/courses';
+import { useMyCourses } from '@/repositories/courses';
+import { useRoster } from '@/repositories/enrollments';
+import { useGradingScheme } from '@/repositories/grading-scheme';
+import { useExamResults, useSaveResults, useSubjectResults } from '@/repositories/results';
+import { useSections } from '@/repositories/sections';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import GradingSchemeForm from '@/components/grading/GradingSchemeForm';
+import GradebookExport from '@/components/grading/GradebookExport';
+
+type Row = { marks: string; remarks: string };
+
+const Gradebook = () => {
+  const { user } = useAuth();
+  const { courses } = useMyCourses();
+  const [courseId, setCourseId] = useState('');
+  const { data: sections = [] } = useSections(courseId || undefined);
+  const [sectionId, setSectionId] = useState('');
+  const { roster } = useRoster(courseId || undefined, sectionId || undefined);
+  const studentIds = roster.map(s => s.id);
+  const [subject, setSubject] = useState('');
+  const [examType, setExamType] = useState<string>(EXAM_TYPES[0]);
+  const [examDate, setExamDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [totalMarks, setTotalMarks] = useState('20');
+  const [rows, setRows] = useState<Record<string, Row>>({});
+  const [view, setView] = useState<'entry' | 'summary'>('entry');
+  const { scheme, credits } = useGradingScheme();
+  const { data: examResults } = useExamResults({ subject, examType, examDate }, studentIds);
+  // Every exam of the subject feeds the weighted summary
+  const { data: subjectResults = [] } = useSubjectResults(subject, studentIds, view === 'summary');
+  const saveMutation = useSaveResults();
+  const course = courses.find(c => c.id === courseId);
+
+  // Picking a course suggests the course name as the subject
+  useEffect(() => {
+    setSectionId('');
+    if (courseId) setSubject(courses.find(c => c.id === courseId)?.name ?? '');
+  }, [courseId, courses]);
+
+  // Prefill the grid with marks already recorded for this exam
+  useEffect(() => {
+    if (!examResults) return setRows({});
+    setRows(Object.fromEntries(examResults.map(r => [r.student_id, { marks: r.marks_obtained.toString(), remarks: r.remarks ?? '' }])));
+    if (examResults[0]) setTotalMarks(examResults[0].total_marks.toString());
+  }, [examResults]);
+
+  const total = Number(totalMarks);
+  const isInvalid = (marks: string) => marks !== '' && (isNaN(Number(marks)) || Number(marks) < 0 || Number(marks) > total);
+  const invalidCount = roster.filter(s => isInvalid(rows[s.id]?.marks ?? '')).length;
+
+  const setCell = (studentId: string, field: keyof Row, value: string) => {
+    setRows(r => ({ ...r, [studentId]: { marks: '', remarks: '', ...r[studentId], [field]: value } }));
+  };
+
+  // Enter moves down the marks column like a spreadsheet
+  const focusNext = (e: React.KeyboardEvent<HTMLInputElement>, i: number) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    document.querySelector<HTMLInputElement>(`[data-marks-row="${i + 1}"]`)?.focus();
+  };
+
+  const saveMarks = () => {
+    if (!user || !subject) return toast.error('Enter a subject');
+    if (!(total > 0)) return toast.error('Total marks must be greater than 0');
+    if (invalidCount > 0) return toast.error(`Marks must be between 0 and ${total}`);
+
+    const entries = roster.filter(s => rows[s.id]?.marks).map(s => ({
+      student_id: s.id,
+      teacher_id: user.id,
+      course_id: courseId,
+      subject,
+      exam_type: examType,
+      exam_date: examDate,
+      marks_obtained: Number(rows[s.id].marks),
+      total_marks: total,
+      remarks: rows[s.id].remarks || null,
+    }));
+    if (entries.length === 0) return toast.error('No marks entered');
+
+    saveMutation.mutate(entries, { onSuccess: () => toast.success(`Saved marks for ${entries.length} students`) });
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Gradebook</h1>
+        <div className="flex gap-2">
+          <Button variant={view === 'entry' ? 'default' : 'outline'} onClick={() => setView('entry')}>Enter marks</Button>
+          <Button variant={view === 'summary' ? 'default' : 'outline'} onClick={() => setView('summary')}>Summary</Button>
+        </div>
+      </div>
+
+      {/* Exam details */}
+      <div className="bg-card p-4 rounded-lg shadow grid sm:grid-cols-6 gap-2 mb-6">
+        <select className="w-full p-2 border rounded bg-background" value={courseId} onChange={e => setCourseId(e.target.value)}>
+          <option value="">Select course</option>
+          {courses.map(c => <option key={c.id} value={c.id}>{courseLabel(c)}</option>)}
+        </select>
+        <select className="w-full p-2 border rounded bg-background" value={sectionId} onChange={e => setSectionId(e.target.value)} disabled={sections.length === 0}>
+          <option value="">All sections</option>
+          {sections.map(sec => <option key={sec.id} value={sec.id}>{sec.name}</option>)}
+        </select>
+        <Input placeholder="Subject" value={subject} onChange={e => setSubject(e.target.value)} />
+        <select className="w-full p-2 border rounded bg-background" value={examType} onChange={e => setExamType(e.target.value)}>
+          {EXAM_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <Input type="date" value={examDate} onChange={e => setExamDate(e.target.value)} />
+        <Input type="number" min="1" placeholder="Total marks" value={totalMarks} onChange={e => setTotalMarks(e.target.value)} />
+      </div>
+
+      {/* Weighted subject summary */}
+      {view === 'summary' && (
+        <div className="space-y-6">
+          {course && (
+            <div className="bg-card p-4 rounded-lg shadow flex flex-wrap justify-between items-center gap-4">
+              <div>
+                <h2 className="font-semibold">Export {course.code}</h2>
+                <p className="text-sm text-muted-foreground">Exam marks, subject grades and assignment grades for the whole course</p>
+              </div>
+              <GradebookExport course={course} scheme={scheme} credits={credits} />
+            </div>
+          )}
+          <div className="bg-card p-4 rounded-lg shadow overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="p-2">Roll</th>
+                  <th className="p-2">Name</th>
+                  {EXAM_TYPES.map(t => <th key={t} className="p-2">{t} ({scheme.weights[t] ?? 0}%)</th>)}
+                  <th className="p-2">Total %</th>
+                  <th className="p-2">Grade</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {roster.map(s => {
+                  const marks = subjectResults.filter(r => r.student_id === s.id);
+                  const grade = marks.length ? subjectGrade(subject, marks, scheme, credits[subject]) : null;
+                  return (
+                    <tr key={s.id} className="border-b last:border-0">
+                      <td className="p-2 text-muted-foreground">{s.roll_number ?? '—'}</td>
+                      <td className="p-2">{s.full_name}</td>
+                      {EXAM_TYPES.map(t => <td key={t} className="p-2">{grade?.breakdown[t]?.toFixed(1) ?? '—'}</td>)}
+                      <td className="p-2">{grade ? grade.percent.toFixed(1) : '—'}</td>
+                      <td className="p-2 font-medium">
+                        {grade ? grade.letter : '—'}
+                        {grade && !grade.complete && <span className="text-xs text-muted-foreground font-normal"> (provisional)</span>}
+                      </td>
+                      <td className="p-2 text-right">
+                        <Link to={`/students/${s.id}/report-card`} className="text-primary underline">Report card</Link>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {(roster.length === 0 || !subject) && <p className="text-muted-foreground p-2">Select a course and subject to see the summary</p>}
+          </div>
+
+          <GradingSchemeForm scheme={scheme} subject={subject} credits={credits} />
+        </div>
+      )}
+
+      {/* Marks grid */}
+      {view === 'entry' && (
+        <div className="bg-card p-4 rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="p-2">Roll</th>
+                <th className="p-2">Name</th>
+                <th className="p-2 w-32">Marks / {totalMarks || '?'}</th>
+                <th className="p-2 w-20">%</th>
+                <th className="p-2 w-16">Grade</th>
+                <th className="p-2">Remarks</th>
+              </tr>
+            </thead>
+            <tbody>
+              {roster.map((s, i) => {
+                const row = rows[s.id] ?? { marks: '', remarks: '' };
+                const invalid = isInvalid(row.marks);
+                const percent = row.marks && !invalid ? percentage(Number(row.marks), total) : null;
+                return (
+                  <tr key={s.id} className="border-b last:border-0">
+                    <td className="p-2 text-muted-foreground">{s.roll_number ?? '—'}</td>
+                    <td className="p-2">{s.full_name}</td>
+                    <td className="p-2">
+                      <Input
+                        data-marks-row={i}
+                        type="number"
+                        step="any"
+                        className={cn('h-8', invalid && 'border-destructive focus-visible:ring-destructive')}
+                        value={row.marks}
+                        onChange={e => setCell(s.id, 'marks', e.target.value)}
+                        onKeyDown={e => focusNext(e, i)}
+                      />
+                    </td>
+                    <td className="p-2">{percent !== null ? percent.toFixed(1) : ''}</td>
+                    <td className="p-2 font-medium">{percent !== null ? letterGrade(percent, scheme.bands) : ''}</td>
+                    <td className="p-2">
+                      <Input className="h-8" value={row.remarks} onChange={e => setCell(s.id, 'remarks', e.target.value)} />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {roster.length === 0 && <p className="text-muted-foreground p-2">{courseId ? 'No students in this course' : 'Select a course to enter marks'}</p>}
+
+          <div className="flex items-center gap-4 mt-4">
+            <Button onClick={saveMarks} disabled={saveMutation.isPending || roster.length === 0}>{saveMutation.isPending ? 'Saving...' : 'Save marks'}</Button>
+            {invalidCount > 0 && <span className="text-sm text-destructive">{invalidCount} invalid entries</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Gradebook;
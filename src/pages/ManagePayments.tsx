@@ -0,0 +1,198 @@
+/**
+ * Manage Payments - Teachers and admins create fee items in bulk, mark payments and review arrears
+ */
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTerm } from '@/contexts/TermContext';
+import { groupBy } from '@/lib/grading';
+import { courseLabel } from '@/lib/courses';
+import { PAYMENT_STATUSES, PAYMENT_TYPES, canTransition, formatAmount, isOverdue, isPaid, sumAmounts } from '@/lib/payments';
+import { useMyCourses } from '@/repositories/courses';
+import { useRoster } from '@/repositories/enrollments';
+import { PaymentWithStudent as Payment, useCreatePayments, useMarkPaid, usePayments, useReversePayment } from '@/repositories/payments';
+import { useStudents } from '@/repositories/profiles';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+// termId stays null until a term is picked, following the one selected in the header; '' means the term of the due date
+const emptyForm = { courseId: '', termId: null as string | null, paymentType: PAYMENT_TYPES[0], amount: '', dueDate: '' };
+
+const ManagePayments = () => {
+  const { profile } = useAuth();
+  const { terms, termId } = useTerm();
+  // Teachers only bill students in the courses they teach
+  const isAdmin = profile?.role === 'admin';
+  const [form, setForm] = useState(emptyForm);
+  const { data: students = [] } = useStudents();
+  const { courses } = useMyCourses();
+  // Billing a course charges everyone enrolled in it
+  const { roster: courseRoster } = useRoster(form.courseId || undefined);
+  const { data: payments = [] } = usePayments();
+  const createMutation = useCreatePayments();
+  const markPaidMutation = useMarkPaid();
+  const reverseMutation = useReversePayment();
+  const [view, setView] = useState<'payments' | 'arrears'>('payments');
+  const [statusFilter, setStatusFilter] = useState('');
+
+  const termName = (p: Payment) => terms.find(t => t.id === p.term_id)?.name ?? p.semester ?? '—';
+  const targets = form.courseId ? courseRoster : isAdmin ? students : [];
+
+  const createFees = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(Number(form.amount) > 0)) return toast.error('Amount must be greater than 0');
+    if (targets.length === 0) return toast.error('No students to bill');
+    createMutation.mutate(targets.map(s => ({
+      student_id: s.id,
+      amount: Number(form.amount),
+      payment_type: form.paymentType,
+      due_date: form.dueDate,
+      // No term leaves it to the database, which files the fee under the term its due date falls in
+      term_id: (form.termId ?? termId) || null,
+    })), {
+      onSuccess: () => {
+        toast.success(`Created ${targets.length} fee items`);
+        setForm(emptyForm);
+      },
+    });
+  };
+
+  const markPaid = (p: Payment) => {
+    markPaidMutation.mutate(p, { onSuccess: () => toast.success('Marked as paid') });
+  };
+
+  const reversePayment = (p: Payment) => {
+    const reason = prompt('Reason for reversing this payment?');
+    if (!reason) return;
+    reverseMutation.mutate({ payment: p, reason }, { onSuccess: () => toast.success('Payment reversed') });
+  };
+
+  const filtered = payments.filter(p =>
+    (!statusFilter || (statusFilter === 'paid' ? isPaid(p) : statusFilter === 'overdue' ? isOverdue(p) : !isPaid(p) && !isOverdue(p))),
+  );
+
+  // Students with overdue items, largest balance first
+  const arrears = useMemo(() => Object.values(groupBy(payments.filter(p => isOverdue(p)), p => p.student_id))
+    .map(items => ({ student: items[0].student, studentId: items[0].student_id, items, total: sumAmounts(items) }))
+    .sort((a, b) => b.total - a.total), [payments]);
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Payments</h1>
+        <div className="flex gap-2">
+          <Button variant={view === 'payments' ? 'default' : 'outline'} onClick={() => setView('payments')}>Fee items</Button>
+          <Button variant={view === 'arrears' ? 'default' : 'outline'} onClick={() => setView('arrears')}>Arrears</Button>
+        </div>
+      </div>
+
+      {view === 'payments' && (
+        <div className="space-y-6">
+          {/* Bulk fee creation */}
+          <form onSubmit={createFees} className="bg-card p-4 rounded-lg shadow space-y-2">
+            <h2 className="text-xl font-semibold mb-2">Create fee items</h2>
+            <div className="grid sm:grid-cols-5 gap-2">
+              <select className="w-full p-2 border rounded bg-background" value={form.courseId} onChange={e => setForm({ ...form, courseId: e.target.value })}>
+                <option value="">{isAdmin ? 'All students' : 'Select course'}</option>
+                {courses.map(c => <option key={c.id} value={c.id}>{courseLabel(c)}</option>)}
+              </select>
+              <select className="w-full p-2 border rounded bg-background" value={form.termId ?? termId} onChange={e => setForm({ ...form, termId: e.target.value })}>
+                <option value="">Term of due date</option>
+                {terms.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+              <select className="w-full p-2 border rounded bg-background capitalize" value={form.paymentType} onChange={e => setForm({ ...form, paymentType: e.target.value })}>
+                {PAYMENT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+              <Input type="number" min="0" step="0.01" placeholder="Amount" value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value })} required />
+              <Input type="date" value={form.dueDate} onChange={e => setForm({ ...form, dueDate: e.target.value })} required />
+            </div>
+            <Button size="sm" type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending ? 'Creating...' : `Create for ${targets.length} students`}
+            </Button>
+          </form>
+
+          {/* Payment list */}
+          <div className="bg-card p-4 rounded-lg shadow overflow-x-auto">
+            <div className="flex gap-2 mb-4">
+              <select className="p-2 border rounded bg-background" value={statusFilter} onChange={e => setStatusFilter(e.target.value)}>
+                <option value="">All statuses</option>
+                {PAYMENT_STATUSES.map(s => <option key={s} value={s} className="capitalize">{s}</option>)}
+              </select>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="p-2">Student</th>
+                  <th className="p-2">Term</th>
+                  <th className="p-2">Type</th>
+                  <th className="p-2">Amount</th>
+                  <th className="p-2">Due</th>
+                  <th className="p-2">Status</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map(p => (
+                  <tr key={p.id} className="border-b last:border-0">
+                    <td className="p-2">{p.student?.full_name}{p.student?.roll_number && <span className="text-muted-foreground"> ({p.student.roll_number})</span>}</td>
+                    <td className="p-2">{termName(p)}</td>
+                    <td className="p-2 capitalize">{p.payment_type}</td>
+                    <td className="p-2">{formatAmount(p.amount)}</td>
+                    <td className="p-2">{format(new Date(`${p.due_date}T00:00`), 'PP')}</td>
+                    <td className="p-2">
+                      {isPaid(p) ? <span className="text-success">Paid {p.paid_date && format(new Date(`${p.paid_date}T00:00`), 'PP')}</span>
+                        : isOverdue(p) ? <span className="text-destructive font-medium">Overdue</span>
+                        : <span className="text-muted-foreground">Pending</span>}
+                    </td>
+                    <td className="p-2 text-right">
+                      {canTransition(p.status, 'paid') && <Button size="sm" variant="outline" onClick={() => markPaid(p)}>Mark paid</Button>}
+                      {isPaid(p) && <Button size="sm" variant="ghost" onClick={() => reversePayment(p)}>Reverse</Button>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {filtered.length === 0 && <p className="text-muted-foreground p-2">No payments</p>}
+          </div>
+        </div>
+      )}
+
+      {/* Arrears report */}
+      {view === 'arrears' && (
+        <div className="bg-card p-4 rounded-lg shadow overflow-x-auto">
+          <div className="flex justify-between items-baseline mb-4">
+            <h2 className="text-xl font-semibold">Arrears</h2>
+            <span className="text-sm text-muted-foreground">Total overdue {formatAmount(sumAmounts(arrears.flatMap(a => a.items)))}</span>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="p-2">Student</th>
+                <th className="p-2">Course</th>
+                <th className="p-2">Overdue items</th>
+                <th className="p-2">Oldest due</th>
+                <th className="p-2">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {arrears.map(a => (
+                <tr key={a.studentId} className="border-b last:border-0">
+                  <td className="p-2">{a.student?.full_name}</td>
+                  <td className="p-2">{a.student?.course ?? '—'}</td>
+                  <td className="p-2">{a.items.map(i => i.payment_type).join(', ')}</td>
+                  <td className="p-2">{format(new Date(`${a.items[a.items.length - 1].due_date}T00:00`), 'PP')}</td>
+                  <td className="p-2 font-medium text-destructive">{formatAmount(a.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {arrears.length === 0 && <p className="text-muted-foreground p-2">No arrears</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ManagePayments;
@@ -0,0 +1,75 @@
+/**
+ * My Attendance - Students see their attendance percentage and roll-call history per course
+ */
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { AttendanceStatus, attendanceSummary, isBelowMinimum } from '@/lib/attendance';
+import { courseLabel } from '@/lib/courses';
+import { groupBy } from '@/lib/grading';
+import { useStudentAttendance } from '@/repositories/attendance';
+import { useMyCourses } from '@/repositories/courses';
+import { cn } from '@/lib/utils';
+
+const statusStyles: Record<AttendanceStatus, string> = {
+  present: 'text-success',
+  late: 'text-warning',
+  absent: 'text-destructive',
+  excused: 'text-muted-foreground',
+};
+
+const MyAttendance = () => {
+  const { user } = useAuth();
+  const { courses } = useMyCourses();
+  const { data: marks = [] } = useStudentAttendance(user?.id);
+  const byCourse = groupBy(marks, m => m.session.course_id);
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">My Attendance</h1>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {courses.map(course => {
+          const courseMarks = [...(byCourse[course.id] ?? [])].sort((a, b) => b.session.held_on.localeCompare(a.session.held_on));
+          const summary = attendanceSummary(courseMarks);
+          const low = isBelowMinimum(summary.percent, course.min_attendance);
+          return (
+            <div key={course.id} className="bg-card p-4 rounded-lg shadow space-y-3">
+              <div className="flex justify-between items-baseline">
+                <h2 className="text-xl font-semibold">{courseLabel(course)}</h2>
+                <span className={cn('text-lg font-medium', low && 'text-destructive')}>
+                  {summary.percent !== null ? `${summary.percent.toFixed(0)}%` : '—'}
+                </span>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Attended {summary.attended} of {summary.held} classes · minimum {course.min_attendance}%
+              </p>
+              {low && (
+                <p className="text-sm p-2 rounded bg-destructive/10 text-destructive">
+                  Your attendance is below the required {course.min_attendance}%.
+                </p>
+              )}
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {courseMarks.map(m => (
+                  <div key={m.id} className="flex justify-between p-2 bg-muted rounded text-sm">
+                    <span>
+                      {format(new Date(`${m.session.held_on}T00:00`), 'PP')}
+                      {m.session.topic && <span className="text-muted-foreground"> · {m.session.topic}</span>}
+                    </span>
+                    <span className={cn('capitalize font-medium', statusStyles[m.status])}>{m.status}</span>
+                  </div>
+                ))}
+                {courseMarks.length === 0 && <p className="text-sm text-muted-foreground">No classes recorded yet</p>}
+              </div>
+            </div>
+          );
+        })}
+        {courses.length === 0 && <p className="text-muted-foreground">You are not enrolled in any courses</p>}
+      </div>
+    </div>
+  );
+};
+
+export default MyAttendance;
@@ -0,0 +1,104 @@
+/**
+ * My Results - Students see their own exam marks, subject grades, GPA and CGPA
+ */
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTerm } from '@/contexts/TermContext';
+import { cgpa, gpa, gradeSubjects, letterGrade, percentage, semesterOf } from '@/lib/grading';
+import { groupByTerm } from '@/lib/terms';
+import { useRealtime } from '@/hooks/use-realtime';
+import { useGradingScheme } from '@/repositories/grading-scheme';
+import { resultKeys, useStudentResults } from '@/repositories/results';
+import { Button } from '@/components/ui/button';
+
+const MyResults = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: results = [] } = useStudentResults(user?.id);
+  const { scheme, credits } = useGradingScheme();
+  const { terms } = useTerm();
+
+  useRealtime('results', () => queryClient.invalidateQueries({ queryKey: resultKeys.byStudent(user.id) }), { filter: `student_id=eq.${user?.id}`, enabled: !!user });
+
+  // Oldest term first, so CGPA reads naturally; results from before terms existed fall back to their semester
+  const semesters = useMemo(() => groupByTerm(results, terms, r => semesterOf(r.exam_date)).map(({ name, rows }) => ({
+    name,
+    rows,
+    grades: gradeSubjects(rows, scheme, credits),
+  })), [results, terms, scheme, credits]);
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">My Results</h1>
+          {semesters.length > 0 && (
+            <p className="text-muted-foreground">CGPA {cgpa(semesters.map(s => s.grades)).toFixed(2)}</p>
+          )}
+        </div>
+        {results.length > 0 && (
+          <Button variant="outline" asChild>
+            <Link to="/report-card">Report card</Link>
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-6">
+        {[...semesters].reverse().map(semester => (
+          <div key={semester.name} className="bg-card p-4 rounded-lg shadow space-y-4">
+            <div className="flex justify-between items-baseline">
+              <h2 className="text-xl font-semibold">{semester.name}</h2>
+              <span className="font-medium">GPA {gpa(semester.grades).toFixed(2)}</span>
+            </div>
+
+            {semester.grades.map(grade => (
+              <div key={grade.subject} className="overflow-x-auto">
+                <div className="flex justify-between items-baseline p-2 bg-muted rounded">
+                  <h3 className="font-medium">{grade.subject} <span className="text-sm text-muted-foreground">({grade.credits} credits)</span></h3>
+                  <span className="text-sm">
+                    {grade.percent.toFixed(1)}% · <span className="font-medium">{grade.letter}</span> ({grade.point.toFixed(2)})
+                    {!grade.complete && <span className="text-muted-foreground"> · provisional</span>}
+                  </span>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b">
+                      <th className="p-2">Exam</th>
+                      <th className="p-2">Date</th>
+                      <th className="p-2">Marks</th>
+                      <th className="p-2">%</th>
+                      <th className="p-2">Grade</th>
+                      <th className="p-2">Remarks</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {semester.rows.filter(r => r.subject === grade.subject).map(r => {
+                      const percent = percentage(r.marks_obtained, r.total_marks);
+                      return (
+                        <tr key={r.id} className="border-b last:border-0">
+                          <td className="p-2">{r.exam_type}</td>
+                          <td className="p-2 text-muted-foreground">{format(new Date(`${r.exam_date}T00:00`), 'PP')}</td>
+                          <td className="p-2">{r.marks_obtained} / {r.total_marks}</td>
+                          <td className="p-2">{percent.toFixed(1)}</td>
+                          <td className="p-2">{letterGrade(percent, scheme.bands)}</td>
+                          <td className="p-2 text-muted-foreground">{r.remarks}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        ))}
+        {results.length === 0 && <p className="text-muted-foreground">No results yet</p>}
+      </div>
+    </div>
+  );
+};
+
+export default MyResults;
@@ -0,0 +1,19 @@
+/**
+ * Not Found - Catch-all for unknown URLs
+ */
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+
+const NotFound = () => {
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center text-center space-y-4 p-8">
+      <h1 className="text-4xl font-bold">404</h1>
+      <p className="text-lg text-muted-foreground">This page doesn't exist.</p>
+      <Button asChild>
+        <Link to="/">Go home</Link>
+      </Button>
+    </div>
+  );
+};
+
+export default NotFound;
@@ -0,0 +1,146 @@
+/**
+ * Profile - Users edit their own details; the fields depend on their role
+ */
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUpdateProfile, useUploadAvatar } from '@/repositories/profiles';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+
+const optional = (max: number) => z.string().trim().max(max, `At most ${max} characters`);
+
+const profileSchema = z.object({
+  full_name: z.string().trim().min(2, 'Enter your full name').max(100, 'At most 100 characters'),
+  phone: z.string().trim().regex(/^(\+?[0-9][0-9 -]{6,19})?$/, 'Enter a valid phone number'),
+  roll_number: optional(30),
+  course: optional(100),
+  department: optional(100),
+}).refine(v => !v.roll_number || v.course, { path: ['course'], message: 'Roll numbers are unique per course, so add your course' });
+
+type ProfileForm = z.infer<typeof profileSchema>;
+
+const initials = (name: string) => name.split(/\s+/).map(part => part[0]).join('').slice(0, 2).toUpperCase();
+
+const Profile = () => {
+  const { profile } = useAuth();
+  const updateMutation = useUpdateProfile();
+  const avatarMutation = useUploadAvatar();
+  const form = useForm<ProfileForm>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: { full_name: '', phone: '', roll_number: '', course: '', department: '' },
+  });
+
+  // Load the saved values, and again whenever they change elsewhere
+  useEffect(() => {
+    if (!profile) return;
+    form.reset({
+      full_name: profile.full_name,
+      phone: profile.phone ?? '',
+      roll_number: profile.roll_number ?? '',
+      course: profile.course ?? '',
+      department: profile.department ?? '',
+    });
+  }, [profile, form]);
+
+  const onSubmit = (values: ProfileForm) => {
+    const isStudent = profile.role === 'student';
+    updateMutation.mutate({
+      id: profile.id,
+      values: {
+        full_name: values.full_name,
+        phone: values.phone || null,
+        ...(isStudent
+          ? { roll_number: values.roll_number || null, course: values.course || null }
+          : { department: values.department || null }),
+      },
+    }, { onSuccess: () => toast.success('Profile saved') });
+  };
+
+  const changeAvatar = (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) return toast.error('Choose an image file');
+    if (file.size > MAX_AVATAR_BYTES) return toast.error('Images must be 2 MB or smaller');
+    avatarMutation.mutate({ profile, file }, { onSuccess: () => toast.success('Picture updated') });
+  };
+
+  if (!profile) return <div className="text-muted-foreground">Loading...</div>;
+
+  const isStudent = profile.role === 'student';
+
+  return (
+    <div className="max-w-xl space-y-6">
+      <h1 className="text-2xl font-bold">Profile</h1>
+
+      {/* Avatar */}
+      <div className="bg-card p-4 rounded-lg shadow flex items-center gap-4">
+        <Avatar className="h-20 w-20">
+          <AvatarImage src={profile.avatar_url ?? undefined} alt={profile.full_name} />
+          <AvatarFallback className="text-xl">{initials(profile.full_name)}</AvatarFallback>
+        </Avatar>
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">{profile.email} · <span className="capitalize">{profile.role}</span></p>
+          <Input type="file" accept="image/*" disabled={avatarMutation.isPending} onChange={e => changeAvatar(e.target.files?.[0])} />
+        </div>
+      </div>
+
+      {/* Details */}
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="bg-card p-4 rounded-lg shadow space-y-4">
+          <FormField control={form.control} name="full_name" render={({ field }) => (
+            <FormItem>
+              <FormLabel>Full name</FormLabel>
+              <FormControl><Input {...field} /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )} />
+          <FormField control={form.control} name="phone" render={({ field }) => (
+            <FormItem>
+              <FormLabel>Phone</FormLabel>
+              <FormControl><Input type="tel" {...field} /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )} />
+          {isStudent ? (
+            <>
+              <FormField control={form.control} name="roll_number" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Roll number</FormLabel>
+                  <FormControl><Input {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="course" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Course</FormLabel>
+                  <FormControl><Input {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+            </>
+          ) : (
+            <FormField control={form.control} name="department" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Department</FormLabel>
+                <FormControl><Input {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )} />
+          )}
+          <Button type="submit" disabled={updateMutation.isPending || !form.formState.isDirty}>
+            {updateMutation.isPending ? 'Saving...' : 'Save profile'}
+          </Button>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,151 @@
+/**
+ * Quiz Results - Teachers grade short answers, review attempts and publish scores to results
+ */
+import { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { courseLabel } from '@/lib/courses';
+import { QuizAnswer, useAttemptAnswers, useGradeQuizAnswer, usePublishQuizResults, useQuiz, useQuizAttempts, useUngradedAnswers } from '@/repositories/quizzes';
+import { useRoster } from '@/repositories/enrollments';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+// What the student answered, in the words they saw
+const answerText = (a: QuizAnswer) =>
+  a.type === 'short_answer' ? a.answer_text || '—' : a.selected.map(i => a.options[i]).join(', ') || '—';
+
+const QuizResults = () => {
+  const { id } = useParams();
+  const { data: quiz } = useQuiz(id);
+  const { data: attempts = [] } = useQuizAttempts(id);
+  const { data: ungraded = [] } = useUngradedAnswers(id);
+  const { roster } = useRoster(quiz?.course_id);
+  const [attemptId, setAttemptId] = useState('');
+  const { data: answers = [] } = useAttemptAnswers(attemptId || undefined);
+  const gradeMutation = useGradeQuizAnswer();
+  const publishMutation = usePublishQuizResults();
+  // Answer id -> points typed but not saved yet
+  const [points, setPoints] = useState<Record<string, string>>({});
+
+  const grade = (answer: QuizAnswer) => {
+    const value = points[answer.id];
+    if (value === undefined || value === '' || isNaN(Number(value))) return toast.error('Enter the points to award');
+    if (Number(value) < 0 || Number(value) > answer.points) return toast.error(`Award between 0 and ${answer.points} points`);
+    gradeMutation.mutate({ answer, awarded: Number(value) }, {
+      onSuccess: () => {
+        toast.success('Answer graded');
+        setPoints(p => ({ ...p, [answer.id]: undefined }));
+      },
+    });
+  };
+
+  const publish = () => {
+    if (!quiz || !confirm('Copy every graded attempt into results as a CT exam? Attempts graded later are copied as they are graded.')) return;
+    publishMutation.mutate(quiz, { onSuccess: published => toast.success(`${published} scores published`) });
+  };
+
+  if (!quiz) return <div className="text-muted-foreground">Loading...</div>;
+
+  const missing = roster.filter(s => !attempts.some(a => a.student_id === s.id)).length;
+
+  const pointsInput = (a: QuizAnswer) => (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        min="0"
+        max={a.points}
+        step="any"
+        className="w-24"
+        placeholder={a.points_awarded?.toString() ?? '0'}
+        value={points[a.id] ?? ''}
+        onChange={e => setPoints({ ...points, [a.id]: e.target.value })}
+      />
+      <span className="text-sm text-muted-foreground">/ {a.points}</span>
+      <Button size="sm" onClick={() => grade(a)} disabled={gradeMutation.isPending}>Save</Button>
+    </div>
+  );
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">{quiz.title}</h1>
+          <p className="text-sm text-muted-foreground">
+            {courseLabel(quiz.course)} · {format(new Date(quiz.opens_at), 'PPp')} – {format(new Date(quiz.closes_at), 'PPp')} · {attempts.length} attempts · {missing} not attempted
+          </p>
+        </div>
+        {quiz.publish_results ? (
+          <span className="text-sm text-muted-foreground">Scores are published to results as CT</span>
+        ) : (
+          <Button onClick={publish} disabled={publishMutation.isPending}>Publish to results</Button>
+        )}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Grading queue */}
+        <div className="bg-card p-4 rounded-lg shadow space-y-2">
+          <h2 className="text-xl font-semibold">To grade ({ungraded.length})</h2>
+          {ungraded.map(a => (
+            <div key={a.id} className="p-3 bg-muted rounded space-y-2 text-sm">
+              <p className="text-muted-foreground">{a.attempt.student?.full_name} · Question {a.position}</p>
+              <p className="font-medium">{a.prompt}</p>
+              <p className="whitespace-pre-wrap">{answerText(a)}</p>
+              {a.question?.model_answer && <p className="text-muted-foreground">Model answer: {a.question.model_answer}</p>}
+              {pointsInput(a)}
+            </div>
+          ))}
+          {ungraded.length === 0 && <p className="text-muted-foreground">Nothing left to grade</p>}
+        </div>
+
+        {/* Attempts */}
+        <div className="bg-card p-4 rounded-lg shadow">
+          <h2 className="text-xl font-semibold mb-2">Attempts</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left">
+                <th className="p-2">Student</th>
+                <th className="p-2">Submitted</th>
+                <th className="p-2">Status</th>
+                <th className="p-2">Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {attempts.map(a => (
+                <tr
+                  key={a.id}
+                  className={cn('border-b cursor-pointer', a.id === attemptId ? 'bg-accent' : 'hover:bg-muted')}
+                  onClick={() => setAttemptId(a.id === attemptId ? '' : a.id)}
+                >
+                  <td className="p-2">{a.student?.full_name}</td>
+                  <td className="p-2">{a.submitted_at ? format(new Date(a.submitted_at), 'PPp') : '—'}</td>
+                  <td className="p-2 capitalize">{a.status.replace('_', ' ')}</td>
+                  <td className="p-2">{a.score ?? '—'} / {a.total}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {attempts.length === 0 && <p className="text-muted-foreground p-2">No attempts yet</p>}
+
+          {/* Selected attempt; any answer can be regraded */}
+          {attemptId && (
+            <div className="space-y-2 mt-4">
+              {answers.map(a => (
+                <div key={a.id} className="p-3 bg-muted rounded space-y-2 text-sm">
+                  <p className="font-medium">{a.position}. {a.prompt}</p>
+                  <p className="whitespace-pre-wrap">{answerText(a)}</p>
+                  <p className="text-muted-foreground">{a.points_awarded === null ? 'Not graded' : `${a.points_awarded} / ${a.points} pts`}</p>
+                  {attempts.find(t => t.id === attemptId)?.status !== 'in_progress' && pointsInput(a)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizResults;
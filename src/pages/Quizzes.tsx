@@ -0,0 +1,31 @@
+/**
+ * Quizzes - Teachers build question banks and schedule quizzes; students take them
+ */
+import { useAuth } from '@/contexts/AuthContext';
+import { hasRole } from '@/lib/roles';
+import QuestionBanks from '@/components/quizzes/QuestionBanks';
+import TeacherQuizzes from '@/components/quizzes/TeacherQuizzes';
+import StudentQuizzes from '@/components/quizzes/StudentQuizzes';
+
+const Quizzes = () => {
+  const { profile } = useAuth();
+  const isTeacher = hasRole(profile, ['teacher']);
+
+  return (
+    <div>
+      {/* Header */}
+      <h1 className="text-2xl font-bold mb-6">Quizzes</h1>
+
+      {isTeacher ? (
+        <div className="grid lg:grid-cols-2 gap-6">
+          <TeacherQuizzes />
+          <QuestionBanks />
+        </div>
+      ) : (
+        <StudentQuizzes />
+      )}
+    </div>
+  );
+};
+
+export default Quizzes;
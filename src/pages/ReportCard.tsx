@@ -0,0 +1,92 @@
+/**
+ * Report Card - Printable per-student summary of subject grades, GPA and CGPA
+ */
+import { useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTerm } from '@/contexts/TermContext';
+import { cgpa, EXAM_TYPES, gpa, gradeSubjects, semesterOf } from '@/lib/grading';
+import { groupByTerm } from '@/lib/terms';
+import { useGradingScheme } from '@/repositories/grading-scheme';
+import { useProfile } from '@/repositories/profiles';
+import { useStudentResults } from '@/repositories/results';
+import { Button } from '@/components/ui/button';
+
+const ReportCard = () => {
+  const { user } = useAuth();
+  // Teachers and admins open a student's card by id; students get their own
+  const { studentId = user?.id } = useParams();
+  const { data: student } = useProfile(studentId);
+  const { data: results = [], isLoading } = useStudentResults(studentId);
+  const { scheme, credits } = useGradingScheme();
+  const { terms } = useTerm();
+
+  const semesters = useMemo(() => groupByTerm(results, terms, r => semesterOf(r.exam_date)).map(({ name, rows }) => ({
+    name,
+    grades: gradeSubjects(rows, scheme, credits),
+  })), [results, terms, scheme, credits]);
+
+  if (!student || isLoading) return <div className="text-muted-foreground">Loading...</div>;
+
+  return (
+    <div className="max-w-4xl mx-auto bg-card p-8 rounded-lg shadow print:shadow-none print:max-w-none print:p-0">
+      {/* Header */}
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <p className="text-sm text-muted-foreground">EduTrackers · Report card</p>
+          <h1 className="text-2xl font-bold">{student.full_name}</h1>
+          <p className="text-sm text-muted-foreground">
+            {[student.roll_number && `Roll ${student.roll_number}`, student.course, student.department].filter(Boolean).join(' · ')}
+          </p>
+        </div>
+        <div className="text-right">
+          <Button className="print:hidden mb-2" onClick={() => window.print()}>Print / Save as PDF</Button>
+          <p className="text-sm text-muted-foreground">Issued {format(new Date(), 'PP')}</p>
+          {semesters.length > 0 && <p className="text-lg font-semibold">CGPA {cgpa(semesters.map(s => s.grades)).toFixed(2)}</p>}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {semesters.map(semester => (
+          <section key={semester.name} className="break-inside-avoid">
+            <div className="flex justify-between items-baseline border-b-2 mb-2">
+              <h2 className="text-lg font-semibold">{semester.name}</h2>
+              <span className="font-medium">GPA {gpa(semester.grades).toFixed(2)}</span>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="p-2">Subject</th>
+                  <th className="p-2">Credits</th>
+                  {EXAM_TYPES.map(t => <th key={t} className="p-2">{t} ({scheme.weights[t] ?? 0}%)</th>)}
+                  <th className="p-2">Total %</th>
+                  <th className="p-2">Grade</th>
+                  <th className="p-2">Point</th>
+                </tr>
+              </thead>
+              <tbody>
+                {semester.grades.map(grade => (
+                  <tr key={grade.subject} className="border-b last:border-0">
+                    <td className="p-2">{grade.subject}</td>
+                    <td className="p-2">{grade.credits}</td>
+                    {EXAM_TYPES.map(t => <td key={t} className="p-2">{grade.breakdown[t]?.toFixed(1) ?? '—'}</td>)}
+                    <td className="p-2">{grade.percent.toFixed(1)}</td>
+                    <td className="p-2 font-medium">
+                      {grade.letter}
+                      {!grade.complete && <span className="text-xs text-muted-foreground font-normal"> (provisional)</span>}
+                    </td>
+                    <td className="p-2">{grade.point.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        ))}
+        {results.length === 0 && <p className="text-muted-foreground">No results yet</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ReportCard;
@@ -0,0 +1,57 @@
+/**
+ * Reset Password - Sets a new password from the recovery link
+ */
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+const ResetPassword = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirm) return toast.error('Passwords do not match');
+    setSaving(true);
+    const { error } = await supabase.auth.updateUser({ password });
+    setSaving(false);
+    if (error) return toast.error(error.message);
+    toast.success('Password updated');
+    navigate('/dashboard', { replace: true });
+  };
+
+  if (loading) return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 to-secondary/10">
+      {/* The recovery link signs the user in; without that session there is nothing to reset */}
+      {user ? (
+        <form onSubmit={handleSubmit} className="bg-card p-8 rounded-lg shadow-lg w-80 space-y-4">
+          <h1 className="text-2xl font-bold text-center">Choose a new password</h1>
+          <Input type="password" placeholder="New password" value={password} onChange={e => setPassword(e.target.value)} required />
+          <Input type="password" placeholder="Confirm new password" value={confirm} onChange={e => setConfirm(e.target.value)} required />
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving ? 'Saving...' : 'Update password'}
+          </Button>
+        </form>
+      ) : (
+        <div className="bg-card p-8 rounded-lg shadow-lg w-80 space-y-4 text-center">
+          <h1 className="text-2xl font-bold">Link expired</h1>
+          <p className="text-sm text-muted-foreground">This reset link is invalid or has expired.</p>
+          <Button asChild className="w-full">
+            <Link to="/forgot-password">Request a new link</Link>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,86 @@
+/**
+ * Settings - Change your sign-in email and password
+ */
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+const emptyPasswords = { current: '', next: '', confirm: '' };
+
+const Settings = () => {
+  const { user } = useAuth();
+  const [email, setEmail] = useState('');
+  const [passwords, setPasswords] = useState(emptyPasswords);
+  const [savingEmail, setSavingEmail] = useState(false);
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  // Supabase emails a confirmation link; the address only changes once it is followed
+  const changeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (email === user.email) return toast.error('That is already your email');
+    setSavingEmail(true);
+    const { error } = await supabase.auth.updateUser({ email }, { emailRedirectTo: `${window.location.origin}/settings` });
+    setSavingEmail(false);
+    if (error) return toast.error(error.message);
+    toast.success('Check your inbox to confirm the new address');
+    setEmail('');
+  };
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwords.next !== passwords.confirm) return toast.error('Passwords do not match');
+    setSavingPassword(true);
+    // Make sure it is really the account owner before changing the password
+    const { error: authError } = await supabase.auth.signInWithPassword({ email: user.email, password: passwords.current });
+    const { error } = authError ? { error: null } : await supabase.auth.updateUser({ password: passwords.next });
+    setSavingPassword(false);
+    if (authError) return toast.error('Current password is incorrect');
+    if (error) return toast.error(error.message);
+    toast.success('Password updated');
+    setPasswords(emptyPasswords);
+  };
+
+  return (
+    <div className="max-w-xl space-y-6">
+      <h1 className="text-2xl font-bold">Settings</h1>
+
+      {/* Email */}
+      <form onSubmit={changeEmail} className="bg-card p-4 rounded-lg shadow space-y-3">
+        <h2 className="text-xl font-semibold">Email</h2>
+        <p className="text-sm text-muted-foreground">
+          Signed in as <span className="font-medium text-foreground">{user?.email}</span>
+          {user?.new_email && <> · waiting for confirmation of {user.new_email}</>}
+        </p>
+        <div className="space-y-1">
+          <Label htmlFor="new-email">New email</Label>
+          <Input id="new-email" type="email" value={email} onChange={e => setEmail(e.target.value)} required />
+        </div>
+        <Button size="sm" type="submit" disabled={savingEmail}>{savingEmail ? 'Saving...' : 'Change email'}</Button>
+      </form>
+
+      {/* Password */}
+      <form onSubmit={changePassword} className="bg-card p-4 rounded-lg shadow space-y-3">
+        <h2 className="text-xl font-semibold">Password</h2>
+        <div className="space-y-1">
+          <Label htmlFor="current-password">Current password</Label>
+          <Input id="current-password" type="password" value={passwords.current} onChange={e => setPasswords({ ...passwords, current: e.target.value })} required />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="new-password">New password</Label>
+          <Input id="new-password" type="password" value={passwords.next} onChange={e => setPasswords({ ...passwords, next: e.target.value })} required />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="confirm-password">Confirm new password</Label>
+          <Input id="confirm-password" type="password" value={passwords.confirm} onChange={e => setPasswords({ ...passwords, confirm: e.target.value })} required />
+        </div>
+        <Button size="sm" type="submit" disabled={savingPassword}>{savingPassword ? 'Saving...' : 'Change password'}</Button>
+      </form>
+    </div>
+  );
+};
+
+export default Settings;
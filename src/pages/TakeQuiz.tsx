@@ -0,0 +1,151 @@
+/**
+ * Take Quiz - A student's timed attempt; answers save as they go and the attempt is handed in when time runs out
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { courseLabel } from '@/lib/courses';
+import { formatCountdown } from '@/lib/quizzes';
+import { QuizAnswer, useAttemptAnswers, useMyQuizAttempts, useQuiz, useSaveQuizAnswer, useSubmitQuiz } from '@/repositories/quizzes';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+
+type Response = { choices: number[]; text: string };
+
+const TakeQuiz = () => {
+  const { id } = useParams();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data: quiz } = useQuiz(id);
+  const { data: attempts, isLoading } = useMyQuizAttempts(user?.id);
+  const attempt = attempts?.[id];
+  const { data: answers = [] } = useAttemptAnswers(attempt?.id);
+  const saveMutation = useSaveQuizAnswer();
+  const { mutate: submitQuiz, isPending: submitting } = useSubmitQuiz();
+  const [responses, setResponses] = useState<Record<string, Response>>({});
+  const [now, setNow] = useState(Date.now());
+  const handedIn = useRef(false);
+  // Choice saves still in flight, so handing in waits for the last click
+  const pendingSaves = useRef(new Set<Promise<unknown>>());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Saved answers come back after a reload; later refetches leave the form alone
+  useEffect(() => {
+    setResponses(r => (Object.keys(r).length > 0 ? r : Object.fromEntries(answers.map(a => [a.id, { choices: a.selected, text: a.answer_text ?? '' }]))));
+  }, [answers]);
+
+  const inProgress = attempt?.status === 'in_progress';
+  const remaining = attempt ? new Date(attempt.deadline).getTime() - now : 0;
+
+  const submit = useCallback(() => {
+    if (!attempt || handedIn.current) return;
+    handedIn.current = true;
+    submitQuiz(attempt, {
+      onSuccess: () => toast.success('Quiz submitted'),
+      onError: () => { handedIn.current = false; },
+    });
+  }, [attempt, submitQuiz]);
+
+  // The server stops accepting answers at the deadline, so hand in what was saved
+  useEffect(() => {
+    if (inProgress && remaining <= 0) submit();
+  }, [inProgress, remaining, submit]);
+
+  const choose = (answer: QuizAnswer, option: number) => {
+    const current = responses[answer.id]?.choices ?? [];
+    const choices = answer.type === 'multi_select'
+      ? current.includes(option) ? current.filter(c => c !== option) : [...current, option]
+      : [option];
+    setResponses({ ...responses, [answer.id]: { ...responses[answer.id], choices } });
+    const save = saveMutation.mutateAsync({ answer, choices }).catch(() => undefined);
+    pendingSaves.current.add(save);
+    save.finally(() => pendingSaves.current.delete(save));
+  };
+
+  const textValues = (answer: QuizAnswer) => ({ answer, choices: [], response: responses[answer.id]?.text ?? '' });
+
+  // Short answers save on blur; save them once more so the last keystrokes make it in
+  const handIn = async () => {
+    if (!confirm('Submit your answers? You cannot change them afterwards.')) return;
+    await Promise.allSettled([
+      ...pendingSaves.current,
+      ...answers.filter(a => a.type === 'short_answer').map(a => saveMutation.mutateAsync(textValues(a))),
+    ]);
+    submit();
+  };
+
+  if (isLoading || !quiz) return <div className="text-muted-foreground">Loading...</div>;
+  if (!attempt) return <div className="text-muted-foreground">You have not started this quiz.</div>;
+
+  const answered = answers.filter(a => (a.type === 'short_answer' ? responses[a.id]?.text : responses[a.id]?.choices.length)).length;
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">{quiz.title}</h1>
+          <p className="text-sm text-muted-foreground">{courseLabel(quiz.course)} · {answered}/{answers.length} answered</p>
+        </div>
+        {inProgress ? (
+          <div className="flex items-center gap-4">
+            <span className={cn('text-2xl font-mono', remaining < 60_000 && 'text-destructive')}>{formatCountdown(remaining)}</span>
+            <Button onClick={handIn} disabled={submitting}>Submit</Button>
+          </div>
+        ) : (
+          <div className="text-right">
+            <p className="text-2xl font-bold">{attempt.score ?? 0} / {attempt.total}</p>
+            <p className="text-sm text-muted-foreground">{attempt.status === 'graded' ? 'Final score' : 'Short answers still being graded'}</p>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {answers.map(a => (
+          <div key={a.id} className="bg-card p-4 rounded-lg shadow space-y-2">
+            <div className="flex justify-between gap-4">
+              <p className="font-medium">{a.position}. {a.prompt}</p>
+              <span className="text-sm text-muted-foreground shrink-0">
+                {!inProgress && a.points_awarded !== null ? `${a.points_awarded} / ${a.points}` : `${a.points}`} pts
+              </span>
+            </div>
+            {a.type === 'short_answer' ? (
+              <Textarea
+                value={responses[a.id]?.text ?? ''}
+                onChange={e => setResponses({ ...responses, [a.id]: { choices: [], text: e.target.value } })}
+                onBlur={() => saveMutation.mutate(textValues(a))}
+                disabled={!inProgress}
+              />
+            ) : (
+              <div className="space-y-1">
+                {a.type === 'multi_select' && <p className="text-xs text-muted-foreground">Select all that apply</p>}
+                {a.option_order.map(i => (
+                  <label key={i} className="flex items-center gap-2 p-2 rounded hover:bg-muted text-sm">
+                    <input
+                      type={a.type === 'multi_select' ? 'checkbox' : 'radio'}
+                      name={a.id}
+                      checked={responses[a.id]?.choices.includes(i) ?? false}
+                      onChange={() => choose(a, i)}
+                      disabled={!inProgress}
+                    />
+                    {a.options[i]}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {!inProgress && <Button variant="outline" className="mt-6" onClick={() => navigate('/quizzes')}>Back to quizzes</Button>}
+    </div>
+  );
+};
+
+export default TakeQuiz;
@@ -0,0 +1,147 @@
+/**
+ * Timetable - Weekly classes for the signed-in user; course teachers and admins edit a course's slots
+ */
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { shortTime, WEEKDAYS } from '@/lib/calendar';
+import { courseLabel } from '@/lib/courses';
+import { groupBy } from '@/lib/grading';
+import { hasRole } from '@/lib/roles';
+import { useCourseTeachers } from '@/repositories/course-teachers';
+import { useMyCourses } from '@/repositories/courses';
+import { useSections } from '@/repositories/sections';
+import { useTerms } from '@/repositories/terms';
+import { TimetableSlot, useCourseTimetable, useCreateSlot, useDeleteSlot, useMyTimetable } from '@/repositories/timetable';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+// Monday first, the way a school week reads
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const emptySlot = { sectionId: '', teacherId: '', termId: '', weekday: '1', startsAt: '09:00', endsAt: '10:00', room: '' };
+
+const slotLine = (s: TimetableSlot) => (
+  <>
+    <span className="font-medium">{shortTime(s.starts_at)}–{shortTime(s.ends_at)}</span> {s.course?.code}
+    {s.section && ` (${s.section.name})`}
+    <span className="block text-xs text-muted-foreground">{[s.room, s.teacher?.full_name, s.term?.name].filter(Boolean).join(' · ')}</span>
+  </>
+);
+
+const Timetable = () => {
+  const { user, profile } = useAuth();
+  const canEdit = hasRole(profile, ['teacher', 'admin']);
+  const isAdmin = profile?.role === 'admin';
+  const { data: mySlots = [] } = useMyTimetable();
+  const { courses } = useMyCourses();
+  const [courseId, setCourseId] = useState('');
+  const { data: courseSlots = [] } = useCourseTimetable(courseId || undefined);
+  const { data: sections = [] } = useSections(courseId || undefined);
+  const { data: teachers = [] } = useCourseTeachers(courseId || undefined);
+  const { data: terms = [] } = useTerms();
+  const createMutation = useCreateSlot();
+  const deleteMutation = useDeleteSlot();
+  const [form, setForm] = useState(emptySlot);
+
+  const byWeekday = groupBy(mySlots, s => s.weekday.toString());
+
+  const addSlot = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !courseId) return;
+    if (form.endsAt <= form.startsAt) return toast.error('The class must end after it starts');
+    createMutation.mutate({
+      course_id: courseId,
+      section_id: form.sectionId || null,
+      // Teachers schedule their own classes
+      teacher_id: isAdmin ? form.teacherId || null : user.id,
+      term_id: form.termId || null,
+      weekday: Number(form.weekday),
+      starts_at: form.startsAt,
+      ends_at: form.endsAt,
+      room: form.room.trim() || null,
+    }, {
+      onSuccess: () => {
+        toast.success('Class added to the timetable');
+        setForm({ ...emptySlot, termId: form.termId });
+      },
+    });
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Timetable</h1>
+      </div>
+
+      {/* Weekly view */}
+      <div className="bg-card p-4 rounded-lg shadow mb-6 overflow-x-auto">
+        <div className="grid grid-cols-7 gap-2 min-w-[48rem]">
+          {WEEK_ORDER.map(day => (
+            <div key={day} className="space-y-2">
+              <h3 className="font-medium text-sm border-b pb-1">{WEEKDAYS[day]}</h3>
+              {(byWeekday[day] ?? []).map(s => (
+                <div key={s.id} className="p-2 bg-muted rounded text-sm">{slotLine(s)}</div>
+              ))}
+            </div>
+          ))}
+        </div>
+        {mySlots.length === 0 && <p className="text-muted-foreground p-2">No classes scheduled</p>}
+      </div>
+
+      {/* Course editor */}
+      {canEdit && (
+        <div className="bg-card p-4 rounded-lg shadow space-y-4">
+          <div className="flex justify-between items-center gap-4">
+            <h2 className="text-xl font-semibold">Edit course timetable</h2>
+            <select className="p-2 border rounded bg-background" value={courseId} onChange={e => setCourseId(e.target.value)}>
+              <option value="">Select course</option>
+              {courses.map(c => <option key={c.id} value={c.id}>{courseLabel(c)}</option>)}
+            </select>
+          </div>
+
+          {courseId && (
+            <>
+              <form onSubmit={addSlot} className="grid sm:grid-cols-4 gap-2 p-3 bg-muted rounded">
+                <select className="w-full p-2 border rounded bg-background" value={form.weekday} onChange={e => setForm({ ...form, weekday: e.target.value })}>
+                  {WEEK_ORDER.map(day => <option key={day} value={day}>{WEEKDAYS[day]}</option>)}
+                </select>
+                <Input type="time" value={form.startsAt} onChange={e => setForm({ ...form, startsAt: e.target.value })} required />
+                <Input type="time" value={form.endsAt} onChange={e => setForm({ ...form, endsAt: e.target.value })} required />
+                <Input placeholder="Room" value={form.room} onChange={e => setForm({ ...form, room: e.target.value })} />
+                <select className="w-full p-2 border rounded bg-background" value={form.sectionId} onChange={e => setForm({ ...form, sectionId: e.target.value })}>
+                  <option value="">Whole course</option>
+                  {sections.map(sec => <option key={sec.id} value={sec.id}>{sec.name}</option>)}
+                </select>
+                {isAdmin && (
+                  <select className="w-full p-2 border rounded bg-background" value={form.teacherId} onChange={e => setForm({ ...form, teacherId: e.target.value })}>
+                    <option value="">No teacher</option>
+                    {teachers.map(t => <option key={t.teacher_id} value={t.teacher_id}>{t.teacher?.full_name}</option>)}
+                  </select>
+                )}
+                <select className="w-full p-2 border rounded bg-background" value={form.termId} onChange={e => setForm({ ...form, termId: e.target.value })}>
+                  <option value="">Every week</option>
+                  {terms.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <Button type="submit" disabled={createMutation.isPending}>Add class</Button>
+              </form>
+
+              <div className="space-y-2">
+                {courseSlots.map(s => (
+                  <div key={s.id} className="flex justify-between items-center p-2 bg-muted rounded text-sm">
+                    <span>{WEEKDAYS[s.weekday]} · {slotLine(s)}</span>
+                    <Button size="sm" variant="ghost" onClick={() => deleteMutation.mutate(s, { onSuccess: () => toast.success('Class removed') })}>Remove</Button>
+                  </div>
+                ))}
+                {courseSlots.length === 0 && <p className="text-muted-foreground">No classes scheduled for this course</p>}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Timetable;
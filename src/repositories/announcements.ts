@@ -0,0 +1,51 @@
+/**
+ * Announcements repository - Announcements visible to the user, plus posting and editing
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+
+export type Announcement = Tables<'announcements'> & {
+  course: Pick<Tables<'courses'>, 'code' | 'name'> | null;
+  section: Pick<Tables<'sections'>, 'name'> | null;
+  author: Pick<Tables<'profiles'>, 'full_name'> | null;
+};
+
+export const announcementKeys = {
+  all: ['announcements'] as const,
+};
+
+// RLS only returns announcements that are live and aimed at this user (authors also see their drafts)
+export const useAnnouncements = () => useQuery({
+  queryKey: announcementKeys.all,
+  queryFn: (): Promise<Announcement[]> => unwrap(supabase.from('announcements')
+    .select('*, course:courses(code, name), section:sections(name), author:profiles(full_name)')
+    .order('pinned', { ascending: false })
+    .order('publish_at', { ascending: false })),
+});
+
+export const useSaveAnnouncement = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, values }: { id?: string; values: TablesInsert<'announcements'> | TablesUpdate<'announcements'> }) => id
+      ? unwrap(supabase.from('announcements').update(values).eq('id', id))
+      : unwrap(supabase.from('announcements').insert(values as TablesInsert<'announcements'>)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: announcementKeys.all }),
+  });
+};
+
+export const useDeleteAnnouncement = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => unwrap(supabase.from('announcements').delete().eq('id', id)),
+    onMutate: async id => {
+      await queryClient.cancelQueries({ queryKey: announcementKeys.all });
+      const previous = queryClient.getQueryData<Announcement[]>(announcementKeys.all);
+      queryClient.setQueryData<Announcement[]>(announcementKeys.all, old => old?.filter(a => a.id !== id));
+      return { previous };
+    },
+    onError: (_error, _id, context) => queryClient.setQueryData(announcementKeys.all, context?.previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: announcementKeys.all }),
+  });
+};
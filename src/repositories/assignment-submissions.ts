@@ -0,0 +1,102 @@
+/**
+ * Assignment submissions repository - Student uploads and teacher grading
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+import { SIGNED_URL_SECONDS, removeSubmissionFile, submissionFileUrl, uploadSubmissionFile } from '@/lib/storage';
+import { ScoredCriterion } from '@/lib/rubrics';
+import { SubmissionStatus } from '@/lib/submissions';
+
+export type Submission = Tables<'assignment_submissions'>;
+export type CourseSubmission = Submission & {
+  assignment: Pick<Tables<'assignments'>, 'title' | 'due_date' | 'course_id' | 'term_id'>;
+  student: Pick<Tables<'profiles'>, 'full_name' | 'roll_number'> | null;
+};
+
+export const submissionKeys = {
+  all: ['assignment_submissions'] as const,
+  byStudent: (studentId: string) => ['assignment_submissions', 'student', studentId] as const,
+  byAssignment: (assignmentId: string) => ['assignment_submissions', 'assignment', assignmentId] as const,
+  byCourse: (courseId: string) => ['assignment_submissions', 'course', courseId] as const,
+  file: (path: string) => ['assignment_submissions', 'file', path] as const,
+};
+
+// Keyed by the id of the other side, so callers can look submissions up directly
+const indexBy = (rows: Submission[], key: 'assignment_id' | 'student_id') =>
+  Object.fromEntries(rows.map(s => [s[key], s])) as Record<string, Submission>;
+
+export const useStudentSubmissions = (studentId: string | undefined) => useQuery({
+  queryKey: submissionKeys.byStudent(studentId ?? ''),
+  queryFn: async () => indexBy(await unwrap(supabase.from('assignment_submissions').select('*').eq('student_id', studentId)), 'assignment_id'),
+  enabled: !!studentId,
+});
+
+export const useAssignmentSubmissions = (assignmentId: string | undefined) => useQuery({
+  queryKey: submissionKeys.byAssignment(assignmentId ?? ''),
+  queryFn: async () => indexBy(await unwrap(supabase.from('assignment_submissions').select('*').eq('assignment_id', assignmentId)), 'student_id'),
+  enabled: !!assignmentId,
+});
+
+// Every submission to a course's assignments, for exports
+export const useCourseSubmissions = (courseId: string | undefined) => useQuery({
+  queryKey: submissionKeys.byCourse(courseId ?? ''),
+  queryFn: (): Promise<CourseSubmission[]> => unwrap(supabase.from('assignment_submissions')
+    .select('*, assignment:assignments!inner(title, due_date, course_id, term_id), student:profiles(full_name, roll_number)')
+    .eq('assignment.course_id', courseId)),
+  enabled: !!courseId,
+});
+
+// A signed link to the submitted file, refreshed before it expires
+export const useSubmissionFileUrl = (fileUrl: string | null | undefined) => useQuery({
+  queryKey: submissionKeys.file(fileUrl ?? ''),
+  queryFn: () => submissionFileUrl(fileUrl!),
+  enabled: !!fileUrl,
+  staleTime: (SIGNED_URL_SECONDS - 5 * 60) * 1000,
+  refetchInterval: (SIGNED_URL_SECONDS - 5 * 60) * 1000,
+});
+
+// First submission inserts; a resubmission replaces the file (the database resets grading fields)
+export const useSubmitAssignment = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ studentId, assignmentId, previous, file }: { studentId: string; assignmentId: string; previous?: Submission; file: File }) => {
+      const upload = await uploadSubmissionFile(studentId, file);
+      await unwrap(previous
+        ? supabase.from('assignment_submissions').update(upload).eq('id', previous.id)
+        : supabase.from('assignment_submissions').insert({ ...upload, assignment_id: assignmentId, student_id: studentId }));
+      if (previous?.file_url) await removeSubmissionFile(previous.file_url);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: submissionKeys.all }),
+  });
+};
+
+type GradeValues = {
+  submission: Submission;
+  grade: number;
+  feedback: string | null;
+  status: SubmissionStatus;
+  rubricScores?: ScoredCriterion[] | null;
+};
+
+export const useGradeSubmission = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    // With a filled rubric the database recomputes the grade from it
+    mutationFn: ({ submission, grade, feedback, status, rubricScores = null }: GradeValues) =>
+      unwrap(supabase.from('assignment_submissions').update({ grade, feedback, status, rubric_scores: rubricScores }).eq('id', submission.id)),
+    onMutate: async ({ submission, grade, feedback, status, rubricScores = null }) => {
+      const key = submissionKeys.byAssignment(submission.assignment_id);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<Record<string, Submission>>(key);
+      queryClient.setQueryData<Record<string, Submission>>(key, old => old && {
+        ...old,
+        [submission.student_id]: { ...submission, grade, feedback, status, rubric_scores: rubricScores },
+      });
+      return { previous };
+    },
+    onError: (_error, { submission }, context) => queryClient.setQueryData(submissionKeys.byAssignment(submission.assignment_id), context?.previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: submissionKeys.all }),
+  });
+};
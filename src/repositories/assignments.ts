@@ -0,0 +1,79 @@
+/**
+ * Assignments repository - Assignments with their course, attachments included
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+import { removeAssignmentFile, uploadAssignmentFile } from '@/lib/storage';
+
+export type Assignment = Tables<'assignments'> & { course: Pick<Tables<'courses'>, 'code' | 'name'> | null };
+
+type AssignmentValues = Pick<TablesInsert<'assignments'>, 'title' | 'description' | 'due_date' | 'course_id' | 'rubric_id'>;
+
+const WITH_COURSE = '*, course:courses(code, name)';
+
+export const assignmentKeys = {
+  all: ['assignments'] as const,
+  list: () => ['assignments', 'list'] as const,
+  byTeacher: (teacherId: string) => ['assignments', 'teacher', teacherId] as const,
+  detail: (id: string) => ['assignments', 'detail', id] as const,
+};
+
+// RLS limits students to courses they are enrolled in plus assignments for everyone
+export const useAssignments = (enabled = true) => useQuery({
+  queryKey: assignmentKeys.list(),
+  queryFn: (): Promise<Assignment[]> => unwrap(supabase.from('assignments').select(WITH_COURSE).order('due_date', { ascending: true })),
+  enabled,
+});
+
+export const useTeacherAssignments = (teacherId: string | undefined) => useQuery({
+  queryKey: assignmentKeys.byTeacher(teacherId ?? ''),
+  queryFn: (): Promise<Assignment[]> => unwrap(supabase.from('assignments').select(WITH_COURSE).eq('teacher_id', teacherId).order('due_date', { ascending: true })),
+  enabled: !!teacherId,
+});
+
+export const fetchAssignment = (id: string): Promise<Assignment> =>
+  unwrap(supabase.from('assignments').select(WITH_COURSE).eq('id', id).single());
+
+export const useAssignment = (id: string | undefined) => useQuery({
+  queryKey: assignmentKeys.detail(id ?? ''),
+  queryFn: () => fetchAssignment(id),
+  enabled: !!id,
+});
+
+// Creates or updates; a new file replaces the previous attachment
+export const useSaveAssignment = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ teacherId, editing, values, file }: { teacherId: string; editing?: Assignment; values: AssignmentValues; file?: File }) => {
+      const attachment = file ? await uploadAssignmentFile(teacherId, file) : {};
+      if (editing) {
+        await unwrap(supabase.from('assignments').update({ ...values, ...attachment }).eq('id', editing.id));
+        if (file && editing.file_url) await removeAssignmentFile(editing.file_url);
+      } else {
+        await unwrap(supabase.from('assignments').insert({ ...values, ...attachment, teacher_id: teacherId }));
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: assignmentKeys.all }),
+  });
+};
+
+export const useDeleteAssignment = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (assignment: Assignment) => {
+      await unwrap(supabase.from('assignments').delete().eq('id', assignment.id));
+      if (assignment.file_url) await removeAssignmentFile(assignment.file_url);
+    },
+    onMutate: async assignment => {
+      const key = assignmentKeys.byTeacher(assignment.teacher_id);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<Assignment[]>(key);
+      queryClient.setQueryData<Assignment[]>(key, old => old?.filter(a => a.id !== assignment.id));
+      return { previous };
+    },
+    onError: (_error, assignment, context) => queryClient.setQueryData(assignmentKeys.byTeacher(assignment.teacher_id), context?.previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: assignmentKeys.all }),
+  });
+};
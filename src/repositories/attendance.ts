@@ -0,0 +1,81 @@
+/**
+ * Attendance repository - Class sessions and the roll-call marks taken in them
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { AttendanceStatus } from '@/lib/attendance';
+import { unwrap } from '@/lib/query-client';
+
+export type ClassSession = Tables<'class_sessions'>;
+export type AttendanceMark = Tables<'attendance'>;
+export type StudentAttendance = AttendanceMark & { session: Pick<ClassSession, 'course_id' | 'held_on' | 'topic'> };
+
+export const attendanceKeys = {
+  all: ['attendance'] as const,
+  sessions: (courseId: string) => ['attendance', 'sessions', courseId] as const,
+  bySession: (sessionId: string) => ['attendance', 'session', sessionId] as const,
+  byCourse: (courseId: string) => ['attendance', 'course', courseId] as const,
+  byStudent: (studentId: string) => ['attendance', 'student', studentId] as const,
+};
+
+// Newest first, so the last class is at the top of the picker
+export const useClassSessions = (courseId: string | undefined) => useQuery({
+  queryKey: attendanceKeys.sessions(courseId ?? ''),
+  queryFn: () => unwrap(supabase.from('class_sessions').select('*').eq('course_id', courseId).order('held_on', { ascending: false })),
+  enabled: !!courseId,
+});
+
+export const useSessionAttendance = (sessionId: string | undefined) => useQuery({
+  queryKey: attendanceKeys.bySession(sessionId ?? ''),
+  queryFn: () => unwrap(supabase.from('attendance').select('*').eq('session_id', sessionId)),
+  enabled: !!sessionId,
+});
+
+// Every mark in a course, for per-student percentages on the roll-call screen
+export const useCourseAttendance = (courseId: string | undefined) => useQuery({
+  queryKey: attendanceKeys.byCourse(courseId ?? ''),
+  queryFn: () => unwrap(supabase.from('attendance')
+    .select('student_id, status, session:class_sessions!inner(course_id)')
+    .eq('session.course_id', courseId)),
+  enabled: !!courseId,
+});
+
+export const useStudentAttendance = (studentId: string | undefined) => useQuery({
+  queryKey: attendanceKeys.byStudent(studentId ?? ''),
+  queryFn: (): Promise<StudentAttendance[]> => unwrap(supabase.from('attendance')
+    .select('*, session:class_sessions(course_id, held_on, topic)')
+    .eq('student_id', studentId)
+    .order('marked_at', { ascending: false })),
+  enabled: !!studentId,
+});
+
+type SessionValues = Pick<ClassSession, 'course_id' | 'section_id' | 'teacher_id' | 'held_on' | 'topic'>;
+
+// Creates the session on first save, then writes one mark per student; saving again overwrites the marks.
+// A session created here is deleted again when its marks fail to save, so no empty session is left behind.
+export const useTakeAttendance = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ sessionId, values, marks }: { sessionId?: string; values: SessionValues; marks: Record<string, AttendanceStatus> }) => {
+      const session = sessionId
+        ? await unwrap(supabase.from('class_sessions').update({ held_on: values.held_on, topic: values.topic }).eq('id', sessionId).select().single())
+        : await unwrap(supabase.from('class_sessions').insert(values).select().single());
+      const rows = Object.entries(marks).map(([studentId, status]) => ({ session_id: session.id, student_id: studentId, status, marked_at: new Date().toISOString() }));
+      await unwrap(supabase.from('attendance').upsert(rows, { onConflict: 'session_id,student_id' })).catch(async error => {
+        if (!sessionId) await supabase.from('class_sessions').delete().eq('id', session.id);
+        throw error;
+      });
+      return session;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: attendanceKeys.all }),
+  });
+};
+
+export const useDeleteClassSession = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (session: ClassSession) => unwrap(supabase.from('class_sessions').delete().eq('id', session.id)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: attendanceKeys.all }),
+  });
+};
@@ -0,0 +1,28 @@
+/**
+ * Calendar feed repository - The signed-in user's secret iCalendar feed URL
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/lib/query-client';
+
+export const calendarFeedKeys = {
+  all: ['calendar_feed'] as const,
+};
+
+const feedUrl = (token: string) => `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+// The token is created on first use
+export const useCalendarFeedUrl = () => useQuery({
+  queryKey: calendarFeedKeys.all,
+  queryFn: async () => feedUrl(await unwrap(supabase.rpc('calendar_token'))),
+  staleTime: Infinity,
+});
+
+// Anyone holding the old URL loses access
+export const useResetCalendarFeed = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => feedUrl(await unwrap(supabase.rpc('calendar_token', { reset: true }))),
+    onSuccess: url => queryClient.setQueryData(calendarFeedKeys.all, url),
+  });
+};
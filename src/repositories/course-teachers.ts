@@ -0,0 +1,53 @@
+/**
+ * Course teachers repository - Which teachers teach which course
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+import { courseKeys } from '@/repositories/courses';
+import { Person } from '@/repositories/profiles';
+
+export type CourseTeacher = Tables<'course_teachers'> & { teacher: Person | null };
+
+type Link = { courseId: string; teacherId: string };
+
+export const courseTeacherKeys = {
+  all: ['course_teachers'] as const,
+  byCourse: (courseId: string) => ['course_teachers', courseId] as const,
+};
+
+export const useCourseTeachers = (courseId: string | undefined) => useQuery({
+  queryKey: courseTeacherKeys.byCourse(courseId ?? ''),
+  queryFn: (): Promise<CourseTeacher[]> => unwrap(supabase.from('course_teachers')
+    .select('*, teacher:profiles(id, full_name, email, roll_number, course)')
+    .eq('course_id', courseId)),
+  enabled: !!courseId,
+});
+
+// A teacher's course list depends on these links, so refresh it too
+const useInvalidate = () => {
+  const queryClient = useQueryClient();
+  return (courseId: string) => Promise.all([
+    queryClient.invalidateQueries({ queryKey: courseTeacherKeys.byCourse(courseId) }),
+    queryClient.invalidateQueries({ queryKey: courseKeys.all }),
+  ]);
+};
+
+export const useAssignTeacher = () => {
+  const invalidate = useInvalidate();
+  return useMutation({
+    mutationFn: ({ courseId, teacherId }: Link) =>
+      unwrap(supabase.from('course_teachers').insert({ course_id: courseId, teacher_id: teacherId })),
+    onSettled: (_data, _error, { courseId }) => invalidate(courseId),
+  });
+};
+
+export const useRemoveTeacher = () => {
+  const invalidate = useInvalidate();
+  return useMutation({
+    mutationFn: ({ courseId, teacherId }: Link) =>
+      unwrap(supabase.from('course_teachers').delete().eq('course_id', courseId).eq('teacher_id', teacherId)),
+    onSettled: (_data, _error, { courseId }) => invalidate(courseId),
+  });
+};
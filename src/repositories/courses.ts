@@ -0,0 +1,70 @@
+/**
+ * Courses repository - Course catalogue and the courses the signed-in user belongs to
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTerm } from '@/contexts/TermContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+
+export type Course = Tables<'courses'>;
+
+export const courseKeys = {
+  all: ['courses'] as const,
+  list: () => ['courses', 'list'] as const,
+  mine: (userId: string, role: string, termId: string) => ['courses', 'mine', userId, role, termId] as const,
+};
+
+export const useCourses = () => useQuery({
+  queryKey: courseKeys.list(),
+  queryFn: () => unwrap(supabase.from('courses').select('*').order('code')),
+});
+
+// Courses the user teaches or is enrolled in (every course for admins); students only see the selected term's
+export const useMyCourses = () => {
+  const { user, profile } = useAuth();
+  const { termId } = useTerm();
+  const query = useQuery({
+    queryKey: courseKeys.mine(user?.id ?? '', profile?.role ?? '', termId),
+    queryFn: async () => {
+      let courses = supabase.from('courses').select('*').order('code');
+      if (profile.role === 'teacher') {
+        const links = await unwrap(supabase.from('course_teachers').select('course_id').eq('teacher_id', user.id));
+        courses = courses.in('id', links.map(l => l.course_id));
+      } else if (profile.role !== 'admin') {
+        let enrollments = supabase.from('enrollments').select('course_id').eq('student_id', user.id);
+        if (termId) enrollments = enrollments.eq('term_id', termId);
+        const links = await unwrap(enrollments);
+        courses = courses.in('id', links.map(l => l.course_id));
+      }
+      return unwrap(courses);
+    },
+    enabled: !!user && !!profile,
+  });
+  return { ...query, courses: query.data ?? [] };
+};
+
+export const useCreateCourse = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (course: TablesInsert<'courses'>) => unwrap(supabase.from('courses').insert(course)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: courseKeys.all }),
+  });
+};
+
+export const useUpdateCourse = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, values }: { id: string; values: TablesUpdate<'courses'> }) => unwrap(supabase.from('courses').update(values).eq('id', id)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: courseKeys.all }),
+  });
+};
+
+export const useDeleteCourse = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => unwrap(supabase.from('courses').delete().eq('id', id)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: courseKeys.all }),
+  });
+};
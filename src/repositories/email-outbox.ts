@@ -0,0 +1,30 @@
+/**
+ * Email outbox repository - Delivery status of queued emails (admins only)
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+
+export type Email = Tables<'email_outbox'>;
+
+export const emailOutboxKeys = {
+  all: ['email_outbox'] as const,
+};
+
+export const useEmailOutbox = (enabled = true) => useQuery({
+  queryKey: emailOutboxKeys.all,
+  queryFn: () => unwrap(supabase.from('email_outbox').select('*').order('created_at', { ascending: false }).limit(200)),
+  enabled,
+});
+
+// Give a failed email a fresh set of attempts; the worker picks it up on its next run
+export const useRequeueEmail = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (email: Email) => unwrap(supabase.from('email_outbox')
+      .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString() })
+      .eq('id', email.id)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: emailOutboxKeys.all }),
+  });
+};
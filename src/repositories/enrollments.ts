@@ -0,0 +1,105 @@
+/**
+ * Enrollments repository - Students enrolled in courses, rosters and section changes
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTerm } from '@/contexts/TermContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+import { courseKeys } from '@/repositories/courses';
+import { Person } from '@/repositories/profiles';
+
+export type Enrollment = Tables<'enrollments'> & { student: Person | null };
+export type RosterStudent = Person & { section_id: string | null };
+
+const STUDENT = 'student:profiles(id, full_name, email, roll_number, course)';
+
+export const enrollmentKeys = {
+  all: ['enrollments'] as const,
+  byCourse: (courseId: string, termId: string) => ['enrollments', 'course', courseId, termId] as const,
+  byCourses: (courseIds: string[], termId: string) => ['enrollments', 'courses', termId, ...courseIds] as const,
+};
+
+// Limited to the term chosen in the header; with every term selected a student can appear once per term
+export const useEnrollments = (courseId: string | undefined) => {
+  const { termId } = useTerm();
+  return useQuery({
+    queryKey: enrollmentKeys.byCourse(courseId ?? '', termId),
+    queryFn: async (): Promise<Enrollment[]> => {
+      let query = supabase.from('enrollments').select(`*, ${STUDENT}`).eq('course_id', courseId);
+      if (termId) query = query.eq('term_id', termId);
+      const data = await unwrap(query);
+      return data.sort((a, b) => (a.student?.full_name ?? '').localeCompare(b.student?.full_name ?? ''));
+    },
+    enabled: !!courseId,
+  });
+};
+
+// Everyone enrolled in any of the given courses (a teacher's students)
+export const useCoursesEnrollments = (courseIds: string[]) => {
+  const { termId } = useTerm();
+  return useQuery({
+    queryKey: enrollmentKeys.byCourses(courseIds, termId),
+    queryFn: (): Promise<Enrollment[]> => {
+      let query = supabase.from('enrollments').select(`*, ${STUDENT}`).in('course_id', courseIds);
+      if (termId) query = query.eq('term_id', termId);
+      return unwrap(query);
+    },
+    enabled: courseIds.length > 0,
+  });
+};
+
+// Students in a course, optionally narrowed to one section, ordered by roll number
+export const useRoster = (courseId: string | undefined, sectionId?: string) => {
+  const query = useEnrollments(courseId);
+  const students = new Map((query.data ?? [])
+    .filter(e => e.student && (!sectionId || e.section_id === sectionId))
+    .map(e => [e.student_id, { ...e.student, section_id: e.section_id }]));
+  // Keyed by student, so someone enrolled in several terms is listed once
+  const roster: RosterStudent[] = [...students.values()]
+    .sort((a, b) => (a.roll_number ?? a.full_name).localeCompare(b.roll_number ?? b.full_name, undefined, { numeric: true }));
+  return { ...query, roster };
+};
+
+// Students' course lists depend on their enrollments, so refresh those too
+const useInvalidate = () => {
+  const queryClient = useQueryClient();
+  return () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: enrollmentKeys.all }),
+    queryClient.invalidateQueries({ queryKey: courseKeys.all }),
+  ]);
+};
+
+export const useEnroll = () => {
+  const invalidate = useInvalidate();
+  return useMutation({
+    mutationFn: (enrollment: TablesInsert<'enrollments'>) => unwrap(supabase.from('enrollments').insert(enrollment)),
+    onSettled: invalidate,
+  });
+};
+
+export const useUnenroll = () => {
+  const invalidate = useInvalidate();
+  return useMutation({
+    mutationFn: (enrollment: Enrollment) => unwrap(supabase.from('enrollments').delete().eq('id', enrollment.id)),
+    onSettled: invalidate,
+  });
+};
+
+export const useChangeSection = () => {
+  const queryClient = useQueryClient();
+  const { termId } = useTerm();
+  return useMutation({
+    mutationFn: ({ enrollment, sectionId }: { enrollment: Enrollment; sectionId: string | null }) =>
+      unwrap(supabase.from('enrollments').update({ section_id: sectionId }).eq('id', enrollment.id)),
+    onMutate: async ({ enrollment, sectionId }) => {
+      const key = enrollmentKeys.byCourse(enrollment.course_id, termId);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<Enrollment[]>(key);
+      queryClient.setQueryData<Enrollment[]>(key, old => old?.map(e => (e.id === enrollment.id ? { ...e, section_id: sectionId } : e)));
+      return { previous };
+    },
+    onError: (_error, { enrollment }, context) => queryClient.setQueryData(enrollmentKeys.byCourse(enrollment.course_id, termId), context?.previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: enrollmentKeys.all }),
+  });
+};
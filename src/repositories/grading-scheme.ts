@@ -0,0 +1,41 @@
+/**
+ * Grading scheme repository - The configured grading scheme, merged with subject credit hours
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_SCHEME, GradeBand, GradingScheme } from '@/lib/grading';
+import { unwrap } from '@/lib/query-client';
+import { useSubjectCredits } from '@/repositories/subjects';
+
+export const gradingSchemeKeys = {
+  all: ['grading_scheme'] as const,
+};
+
+const NO_CREDITS: Record<string, number> = {};
+
+// Falls back to the built-in scheme until one is configured
+export const useGradingScheme = () => {
+  const schemeQuery = useQuery({
+    queryKey: gradingSchemeKeys.all,
+    queryFn: async (): Promise<GradingScheme> => {
+      const row = await unwrap(supabase.from('grading_scheme').select('*').maybeSingle());
+      if (!row) return DEFAULT_SCHEME;
+      return {
+        bands: row.bands as GradeBand[],
+        weights: row.weights as Record<string, number>,
+        bestOf: row.best_of as Record<string, number>,
+      };
+    },
+  });
+  const creditsQuery = useSubjectCredits();
+  return { scheme: schemeQuery.data ?? DEFAULT_SCHEME, credits: creditsQuery.data ?? NO_CREDITS };
+};
+
+export const useSaveGradingScheme = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ bands, weights, bestOf }: GradingScheme) =>
+      unwrap(supabase.from('grading_scheme').update({ bands, weights, best_of: bestOf }).eq('id', 1)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: gradingSchemeKeys.all }),
+  });
+};
@@ -0,0 +1,37 @@
+/**
+ * Notifications repository - The signed-in user's notifications and read state
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+
+export type Notification = Tables<'notifications'>;
+
+export const notificationKeys = {
+  all: ['notifications'] as const,
+  byUser: (userId: string) => ['notifications', userId] as const,
+};
+
+export const useNotifications = (userId: string | undefined) => useQuery({
+  queryKey: notificationKeys.byUser(userId ?? ''),
+  queryFn: () => unwrap(supabase.from('notifications').select('*').eq('user_id', userId).order('created_at', { ascending: false }).limit(50)),
+  enabled: !!userId,
+});
+
+export const useMarkNotificationsRead = (userId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const key = notificationKeys.byUser(userId ?? '');
+  return useMutation({
+    mutationFn: ({ ids, readAt }: { ids: string[]; readAt: string }) =>
+      unwrap(supabase.from('notifications').update({ read_at: readAt }).in('id', ids)),
+    onMutate: async ({ ids, readAt }) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<Notification[]>(key);
+      queryClient.setQueryData<Notification[]>(key, old => old?.map(n => (ids.includes(n.id) ? { ...n, read_at: readAt } : n)));
+      return { previous };
+    },
+    onError: (_error, _vars, context) => queryClient.setQueryData(key, context?.previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: key }),
+  });
+};
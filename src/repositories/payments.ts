@@ -0,0 +1,70 @@
+/**
+ * Payments repository - Fee items, payment status changes and reversals
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTerm } from '@/contexts/TermContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+
+export type Payment = Tables<'payments'>;
+export type PaymentWithStudent = Payment & { student: Pick<Tables<'profiles'>, 'full_name' | 'roll_number' | 'course'> | null };
+
+export const paymentKeys = {
+  all: ['payments'] as const,
+  list: (termId: string) => ['payments', 'list', termId] as const,
+  byStudent: (studentId: string) => ['payments', 'student', studentId] as const,
+};
+
+export const useStudentPayments = (studentId: string | undefined) => useQuery({
+  queryKey: paymentKeys.byStudent(studentId ?? ''),
+  queryFn: () => unwrap(supabase.from('payments').select('*').eq('student_id', studentId).order('due_date', { ascending: false })),
+  enabled: !!studentId,
+});
+
+// Fee items of the term selected in the header
+export const usePayments = () => {
+  const { termId } = useTerm();
+  return useQuery({
+    queryKey: paymentKeys.list(termId),
+    queryFn: (): Promise<PaymentWithStudent[]> => {
+      let query = supabase.from('payments').select('*, student:profiles(full_name, roll_number, course)');
+      if (termId) query = query.eq('term_id', termId);
+      return unwrap(query.order('due_date', { ascending: false }));
+    },
+  });
+};
+
+export const useCreatePayments = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (items: TablesInsert<'payments'>[]) => unwrap(supabase.from('payments').insert(items)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: paymentKeys.all }),
+  });
+};
+
+// The database records paid_date when a payment moves to paid
+export const useMarkPaid = () => {
+  const queryClient = useQueryClient();
+  const key = paymentKeys.list(useTerm().termId);
+  return useMutation({
+    mutationFn: (payment: Payment) => unwrap(supabase.from('payments').update({ status: 'paid' }).eq('id', payment.id)),
+    onMutate: async payment => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<PaymentWithStudent[]>(key);
+      queryClient.setQueryData<PaymentWithStudent[]>(key, old => old?.map(p => (p.id === payment.id ? { ...p, status: 'paid' } : p)));
+      return { previous };
+    },
+    onError: (_error, _payment, context) => queryClient.setQueryData(key, context?.previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: paymentKeys.all }),
+  });
+};
+
+export const useReversePayment = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ payment, reason }: { payment: Payment; reason: string }) =>
+      unwrap(supabase.rpc('reverse_payment', { payment_id: payment.id, reason })),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: paymentKeys.all }),
+  });
+};
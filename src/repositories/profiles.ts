@@ -0,0 +1,110 @@
+/**
+ * Profiles repository - User profiles, role management and account actions
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+import { removeAvatar, uploadAvatar } from '@/lib/storage';
+
+export type Profile = Tables<'profiles'>;
+export type Person = Pick<Profile, 'id' | 'full_name' | 'email' | 'roll_number' | 'course'>;
+
+const PERSON_COLUMNS = 'id, full_name, email, roll_number, course';
+
+export const profileKeys = {
+  all: ['profiles'] as const,
+  detail: (id: string) => ['profiles', 'detail', id] as const,
+  list: () => ['profiles', 'list'] as const,
+  byRole: (role: Profile['role']) => ['profiles', 'role', role] as const,
+};
+
+export const fetchProfile = (id: string) => unwrap(supabase.from('profiles').select('*').eq('id', id).single());
+
+// PostgREST's "no rows" error for .single()
+const isMissingRow = (error: Error) => 'code' in error && error.code === 'PGRST116';
+
+export const useProfile = (id: string | undefined) => useQuery({
+  queryKey: profileKeys.detail(id ?? ''),
+  queryFn: () => fetchProfile(id),
+  enabled: !!id,
+  // The signup trigger creates the row, so keep asking for a while before giving up on it
+  retry: (failureCount, error) => failureCount < (isMissingRow(error) ? 6 : 1),
+  retryDelay: attempt => Math.min(500 * 2 ** attempt, 5000),
+});
+
+// Every account, newest first (admins only; RLS returns less for everyone else)
+export const useProfiles = (enabled = true) => useQuery({
+  queryKey: profileKeys.list(),
+  queryFn: () => unwrap(supabase.from('profiles').select('*').order('created_at', { ascending: false })),
+  enabled,
+});
+
+export const useStudents = () => useQuery({
+  queryKey: profileKeys.byRole('student'),
+  queryFn: () => unwrap(supabase.from('profiles').select(PERSON_COLUMNS).eq('role', 'student').order('full_name')),
+});
+
+// Approved teachers only, for assigning to courses
+export const useTeachers = (enabled = true) => useQuery({
+  queryKey: profileKeys.byRole('teacher'),
+  queryFn: () => unwrap(supabase.from('profiles').select(PERSON_COLUMNS).eq('role', 'teacher').eq('approved', true).order('full_name')),
+  enabled,
+});
+
+// Postgres unique_violation; the only unique column users edit is the roll number
+const isDuplicate = (error: Error) => 'code' in error && error.code === '23505';
+
+export const useUpdateProfile = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, values }: { id: string; values: TablesUpdate<'profiles'> }) =>
+      unwrap(supabase.from('profiles').update(values).eq('id', id)).catch(error => {
+        throw isDuplicate(error) ? new Error('That roll number is already taken in this course') : error;
+      }),
+    // Show the change straight away in the admin list and the profile itself
+    onMutate: async ({ id, values }) => {
+      await queryClient.cancelQueries({ queryKey: profileKeys.all });
+      const list = queryClient.getQueryData<Profile[]>(profileKeys.list());
+      const detail = queryClient.getQueryData<Profile>(profileKeys.detail(id));
+      queryClient.setQueryData<Profile[]>(profileKeys.list(), old => old?.map(p => (p.id === id ? { ...p, ...values } : p)));
+      queryClient.setQueryData<Profile>(profileKeys.detail(id), old => old && { ...old, ...values });
+      return { list, detail };
+    },
+    onError: (_error, { id }, context) => {
+      queryClient.setQueryData(profileKeys.list(), context?.list);
+      queryClient.setQueryData(profileKeys.detail(id), context?.detail);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: profileKeys.all }),
+  });
+};
+
+// Uploads the new picture first, then drops the old one
+export const useUploadAvatar = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ profile, file }: { profile: Profile; file: File }) => {
+      const avatarUrl = await uploadAvatar(profile.id, file);
+      await unwrap(supabase.from('profiles').update({ avatar_url: avatarUrl }).eq('id', profile.id));
+      if (profile.avatar_url) await removeAvatar(profile.avatar_url);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: profileKeys.all }),
+  });
+};
+
+export const useSetActive = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) =>
+      unwrap(supabase.rpc('admin_set_active', { target_id: id, is_active: active })),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: profileKeys.all }),
+  });
+};
+
+export const useDeleteUser = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => unwrap(supabase.rpc('admin_delete_user', { target_id: id })),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: profileKeys.all }),
+  });
+};
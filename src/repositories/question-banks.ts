@@ -0,0 +1,67 @@
+/**
+ * Question banks repository - Per-course question banks and their questions (teachers only)
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+
+export type QuestionBank = Tables<'question_banks'>;
+export type Question = Tables<'questions'>;
+
+type QuestionValues = Pick<TablesInsert<'questions'>, 'type' | 'prompt' | 'options' | 'correct' | 'model_answer' | 'points'>;
+
+export const questionBankKeys = {
+  all: ['question_banks'] as const,
+  byCourses: (courseIds: string[]) => ['question_banks', 'courses', ...courseIds] as const,
+  questions: (bankId: string) => ['question_banks', 'questions', bankId] as const,
+};
+
+export const useQuestionBanks = (courseIds: string[]) => useQuery({
+  queryKey: questionBankKeys.byCourses(courseIds),
+  queryFn: () => unwrap(supabase.from('question_banks').select('*').in('course_id', courseIds).order('name')),
+  enabled: courseIds.length > 0,
+});
+
+export const useQuestions = (bankId: string | undefined) => useQuery({
+  queryKey: questionBankKeys.questions(bankId ?? ''),
+  queryFn: () => unwrap(supabase.from('questions').select('*').eq('bank_id', bankId).order('created_at')),
+  enabled: !!bankId,
+});
+
+export const useCreateQuestionBank = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (bank: TablesInsert<'question_banks'>) => unwrap(supabase.from('question_banks').insert(bank).select().single()),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: questionBankKeys.all }),
+  });
+};
+
+// Quizzes drawing from the bank are deleted with it
+export const useDeleteQuestionBank = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (bank: QuestionBank) => unwrap(supabase.from('question_banks').delete().eq('id', bank.id)),
+    onSettled: () => queryClient.invalidateQueries(),
+  });
+};
+
+// Attempts already started keep their own copy of the question
+export const useSaveQuestion = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ bankId, editing, values }: { bankId: string; editing?: Question; values: QuestionValues }) => {
+      if (editing) await unwrap(supabase.from('questions').update(values).eq('id', editing.id));
+      else await unwrap(supabase.from('questions').insert({ ...values, bank_id: bankId }));
+    },
+    onSettled: (_data, _error, { bankId }) => queryClient.invalidateQueries({ queryKey: questionBankKeys.questions(bankId) }),
+  });
+};
+
+export const useDeleteQuestion = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (question: Question) => unwrap(supabase.from('questions').delete().eq('id', question.id)),
+    onSettled: (_data, _error, question) => queryClient.invalidateQueries({ queryKey: questionBankKeys.questions(question.bank_id) }),
+  });
+};
@@ -0,0 +1,154 @@
+/**
+ * Quizzes repository - Quizzes, timed attempts and grading; attempts are only written through RPCs
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+import { resultKeys } from '@/repositories/results';
+
+export type Quiz = Tables<'quizzes'> & { course: Pick<Tables<'courses'>, 'code' | 'name'> | null };
+export type QuizAttempt = Tables<'quiz_attempts'>;
+export type QuizAnswer = Omit<Tables<'quiz_answers'>, 'correct'>;
+export type AttemptWithStudent = QuizAttempt & { student: Pick<Tables<'profiles'>, 'full_name' | 'roll_number'> | null };
+export type UngradedAnswer = QuizAnswer & {
+  attempt: { student: Pick<Tables<'profiles'>, 'full_name' | 'roll_number'> | null };
+  question: Pick<Tables<'questions'>, 'model_answer'> | null;
+};
+
+type QuizValues = Omit<TablesInsert<'quizzes'>, 'id' | 'teacher_id' | 'created_at' | 'publish_results'>;
+
+const WITH_COURSE = '*, course:courses(code, name)';
+// The answer key column is not granted to clients, so answers are always selected column by column
+const ANSWER_COLUMNS = 'id, attempt_id, question_id, position, type, prompt, options, option_order, selected, answer_text, points, points_awarded';
+
+export const quizKeys = {
+  all: ['quizzes'] as const,
+  byCourses: (courseIds: string[]) => ['quizzes', 'courses', ...courseIds] as const,
+  detail: (id: string) => ['quizzes', 'detail', id] as const,
+  attempts: (quizId: string) => ['quizzes', 'attempts', quizId] as const,
+  byStudent: (studentId: string) => ['quizzes', 'student', studentId] as const,
+  answers: (attemptId: string) => ['quizzes', 'answers', attemptId] as const,
+  ungraded: (quizId: string) => ['quizzes', 'ungraded', quizId] as const,
+};
+
+// RLS limits students to quizzes in courses they are enrolled in
+export const useQuizzes = (courseIds?: string[]) => useQuery({
+  queryKey: courseIds ? quizKeys.byCourses(courseIds) : quizKeys.all,
+  queryFn: (): Promise<Quiz[]> => {
+    let query = supabase.from('quizzes').select(WITH_COURSE);
+    if (courseIds) query = query.in('course_id', courseIds);
+    return unwrap(query.order('opens_at', { ascending: false }));
+  },
+  enabled: !courseIds || courseIds.length > 0,
+});
+
+export const useQuiz = (id: string | undefined) => useQuery({
+  queryKey: quizKeys.detail(id ?? ''),
+  queryFn: (): Promise<Quiz> => unwrap(supabase.from('quizzes').select(WITH_COURSE).eq('id', id).single()),
+  enabled: !!id,
+});
+
+// Quiz id -> the student's attempt
+export const useMyQuizAttempts = (studentId: string | undefined) => useQuery({
+  queryKey: quizKeys.byStudent(studentId ?? ''),
+  queryFn: async () => Object.fromEntries((await unwrap(supabase.from('quiz_attempts').select('*').eq('student_id', studentId))).map(a => [a.quiz_id, a])) as Record<string, QuizAttempt>,
+  enabled: !!studentId,
+});
+
+export const useQuizAttempts = (quizId: string | undefined) => useQuery({
+  queryKey: quizKeys.attempts(quizId ?? ''),
+  queryFn: (): Promise<AttemptWithStudent[]> => unwrap(supabase.from('quiz_attempts')
+    .select('*, student:profiles(full_name, roll_number)')
+    .eq('quiz_id', quizId)
+    .order('started_at')),
+  enabled: !!quizId,
+});
+
+export const useAttemptAnswers = (attemptId: string | undefined) => useQuery({
+  queryKey: quizKeys.answers(attemptId ?? ''),
+  queryFn: (): Promise<QuizAnswer[]> => unwrap(supabase.from('quiz_answers').select(ANSWER_COLUMNS).eq('attempt_id', attemptId).order('position')),
+  enabled: !!attemptId,
+});
+
+// Answers auto-grading could not mark
+export const useUngradedAnswers = (quizId: string | undefined) => useQuery({
+  queryKey: quizKeys.ungraded(quizId ?? ''),
+  queryFn: (): Promise<UngradedAnswer[]> => unwrap(supabase.from('quiz_answers')
+    .select(`${ANSWER_COLUMNS}, attempt:quiz_attempts!inner(quiz_id, status, student:profiles(full_name, roll_number)), question:questions(model_answer)` as const)
+    .eq('attempt.quiz_id', quizId)
+    .eq('attempt.status', 'submitted')
+    .is('points_awarded', null)
+    .order('position')),
+  enabled: !!quizId,
+});
+
+export const useSaveQuiz = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ teacherId, editing, values }: { teacherId: string; editing?: Quiz; values: QuizValues }) => {
+      if (editing) await unwrap(supabase.from('quizzes').update(values).eq('id', editing.id));
+      else await unwrap(supabase.from('quizzes').insert({ ...values, teacher_id: teacherId }));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: quizKeys.all }),
+  });
+};
+
+// Scores it published to results go with it
+export const useDeleteQuiz = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (quiz: Quiz) => unwrap(supabase.from('quizzes').delete().eq('id', quiz.id)),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: quizKeys.all });
+      queryClient.invalidateQueries({ queryKey: resultKeys.all });
+    },
+  });
+};
+
+// Returns the attempt id; starting again resumes the same attempt with its original deadline
+export const useStartQuiz = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (quiz: Quiz) => unwrap(supabase.rpc('start_quiz', { quiz: quiz.id })),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: quizKeys.all }),
+  });
+};
+
+// The server rejects answers once the deadline has passed
+export const useSaveQuizAnswer = () => useMutation({
+  mutationFn: ({ answer, choices, response }: { answer: QuizAnswer; choices: number[]; response?: string }) =>
+    unwrap(supabase.rpc('save_quiz_answer', { answer: answer.id, choices, response })),
+});
+
+export const useSubmitQuiz = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (attempt: QuizAttempt) => unwrap(supabase.rpc('submit_quiz', { attempt: attempt.id })),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: quizKeys.all }),
+  });
+};
+
+export const useGradeQuizAnswer = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ answer, awarded }: { answer: QuizAnswer; awarded: number }) =>
+      unwrap(supabase.rpc('grade_quiz_answer', { answer: answer.id, awarded })),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: quizKeys.all });
+      queryClient.invalidateQueries({ queryKey: resultKeys.all });
+    },
+  });
+};
+
+// Returns how many graded attempts were copied into results
+export const usePublishQuizResults = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (quiz: Quiz) => unwrap(supabase.rpc('publish_quiz_results', { quiz: quiz.id })),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: quizKeys.all });
+      queryClient.invalidateQueries({ queryKey: resultKeys.all });
+    },
+  });
+};
@@ -0,0 +1,82 @@
+/**
+ * Results repository - Exam marks per student
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTerm } from '@/contexts/TermContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+
+export type Result = Tables<'results'>;
+export type ResultWithStudent = Result & { student: Pick<Tables<'profiles'>, 'full_name' | 'roll_number'> | null };
+
+type Exam = { subject: string; examType: string; examDate: string };
+
+export const resultKeys = {
+  all: ['results'] as const,
+  byStudent: (studentId: string) => ['results', 'student', studentId] as const,
+  bySubject: (subject: string, studentIds: string[], termId = '') => ['results', 'subject', subject, termId, ...studentIds] as const,
+  byCourse: (courseId: string) => ['results', 'course', courseId] as const,
+  exams: (teacherId: string) => ['results', 'exams', teacherId] as const,
+};
+
+// Ordered by date, so semesters come out oldest first
+export const useStudentResults = (studentId: string | undefined) => useQuery({
+  queryKey: resultKeys.byStudent(studentId ?? ''),
+  queryFn: () => unwrap(supabase.from('results').select('*').eq('student_id', studentId).order('exam_date')),
+  enabled: !!studentId,
+});
+
+// Every exam of a subject for the given students in the selected term
+export const useSubjectResults = (subject: string, studentIds: string[], enabled = true) => {
+  const { termId } = useTerm();
+  return useQuery({
+    queryKey: resultKeys.bySubject(subject, studentIds, termId),
+    queryFn: () => {
+      let query = supabase.from('results').select('*').eq('subject', subject).in('student_id', studentIds);
+      if (termId) query = query.eq('term_id', termId);
+      return unwrap(query);
+    },
+    enabled: enabled && !!subject && studentIds.length > 0,
+  });
+};
+
+// Marks already recorded by hand for one exam; published quiz scores are kept apart
+export const useExamResults = ({ subject, examType, examDate }: Exam, studentIds: string[]) => useQuery({
+  queryKey: [...resultKeys.bySubject(subject, studentIds), examType, examDate],
+  queryFn: () => unwrap(supabase.from('results').select('*')
+    .eq('subject', subject).eq('exam_type', examType).eq('exam_date', examDate)
+    .is('quiz_id', null)
+    .in('student_id', studentIds)),
+  enabled: !!subject && !!examDate && studentIds.length > 0,
+});
+
+// Every mark recorded in a course, for exports
+export const useCourseResults = (courseId: string | undefined) => useQuery({
+  queryKey: resultKeys.byCourse(courseId ?? ''),
+  queryFn: (): Promise<ResultWithStudent[]> => unwrap(supabase.from('results')
+    .select('*, student:profiles!results_student_id_fkey(full_name, roll_number)')
+    .eq('course_id', courseId)
+    .order('exam_date')),
+  enabled: !!courseId,
+});
+
+// Exams a teacher has recorded marks for by hand, once each
+export const useTeacherExams = (teacherId: string | undefined) => useQuery({
+  queryKey: resultKeys.exams(teacherId ?? ''),
+  queryFn: async () => {
+    const rows = await unwrap(supabase.from('results').select('subject, exam_type, exam_date').eq('teacher_id', teacherId).is('quiz_id', null).order('exam_date'));
+    return [...new Map(rows.map(r => [`${r.subject}|${r.exam_type}|${r.exam_date}`, r])).values()];
+  },
+  enabled: !!teacherId,
+});
+
+// One row per student and exam; saving again overwrites the marks (quiz_id is always empty here)
+export const useSaveResults = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (entries: TablesInsert<'results'>[]) =>
+      unwrap(supabase.from('results').upsert(entries, { onConflict: 'student_id,subject,exam_type,exam_date,quiz_id' })),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: resultKeys.all }),
+  });
+};
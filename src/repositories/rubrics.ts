@@ -0,0 +1,48 @@
+/**
+ * Rubrics repository - Reusable grading rubrics; any teacher can use one, only its author edits it
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+import { RubricCriterion } from '@/lib/rubrics';
+import { assignmentKeys } from '@/repositories/assignments';
+
+export type Rubric = Omit<Tables<'rubrics'>, 'criteria'> & { criteria: RubricCriterion[] };
+
+type RubricValues = Pick<Rubric, 'name' | 'criteria'>;
+
+export const rubricKeys = {
+  all: ['rubrics'] as const,
+};
+
+export const useRubrics = (enabled = true) => useQuery({
+  queryKey: rubricKeys.all,
+  queryFn: async (): Promise<Rubric[]> =>
+    (await unwrap(supabase.from('rubrics').select('*').order('name'))).map(r => ({ ...r, criteria: r.criteria as RubricCriterion[] })),
+  enabled,
+});
+
+// Submissions already graded keep their own copy of the rubric
+export const useSaveRubric = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ teacherId, editing, values }: { teacherId: string; editing?: Rubric; values: RubricValues }) => {
+      if (editing) await unwrap(supabase.from('rubrics').update(values).eq('id', editing.id));
+      else await unwrap(supabase.from('rubrics').insert({ ...values, teacher_id: teacherId }));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: rubricKeys.all }),
+  });
+};
+
+export const useDeleteRubric = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (rubric: Rubric) => unwrap(supabase.from('rubrics').delete().eq('id', rubric.id)),
+    // Assignments using it fall back to a plain numeric grade
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: rubricKeys.all });
+      queryClient.invalidateQueries({ queryKey: assignmentKeys.all });
+    },
+  });
+};
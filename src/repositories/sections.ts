@@ -0,0 +1,36 @@
+/**
+ * Sections repository - Sections within a course
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+
+export type Section = Tables<'sections'>;
+
+export const sectionKeys = {
+  all: ['sections'] as const,
+  byCourse: (courseId: string) => ['sections', courseId] as const,
+};
+
+export const useSections = (courseId: string | undefined) => useQuery({
+  queryKey: sectionKeys.byCourse(courseId ?? ''),
+  queryFn: () => unwrap(supabase.from('sections').select('*').eq('course_id', courseId).order('name')),
+  enabled: !!courseId,
+});
+
+export const useCreateSection = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (section: TablesInsert<'sections'>) => unwrap(supabase.from('sections').insert(section)),
+    onSettled: (_data, _error, { course_id }) => queryClient.invalidateQueries({ queryKey: sectionKeys.byCourse(course_id) }),
+  });
+};
+
+export const useDeleteSection = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (section: Section) => unwrap(supabase.from('sections').delete().eq('id', section.id)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: sectionKeys.all }),
+  });
+};
@@ -0,0 +1,36 @@
+/**
+ * Student import repository - Bulk account creation through the import-students edge function
+ */
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { enrollmentKeys } from '@/repositories/enrollments';
+import { profileKeys } from '@/repositories/profiles';
+
+export type ImportRow = { full_name: string; email: string; roll_number: string; course: string };
+// Column order shared by the CSV import and the roster export
+export const ROSTER_COLUMNS = ['name', 'email', 'roll_number', 'course'] as const;
+
+export type ImportOutcome = { email: string; status: 'invited' | 'existing' | 'error'; message?: string };
+
+export const useImportStudents = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ students, courseId }: { students: ImportRow[]; courseId?: string }) => {
+      const { data, error } = await supabase.functions.invoke<{ results: ImportOutcome[] }>('import-students', {
+        body: { students, courseId, redirectTo: `${window.location.origin}/reset-password` },
+      });
+      // Non-2xx responses carry the function's own error message in the body
+      if (error instanceof FunctionsHttpError) {
+        const body = await error.context.json().catch(() => null);
+        throw new Error(body?.error ?? error.message);
+      }
+      if (error) throw error;
+      return data.results;
+    },
+    onSettled: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: profileKeys.all }),
+      queryClient.invalidateQueries({ queryKey: enrollmentKeys.all }),
+    ]),
+  });
+};
@@ -0,0 +1,25 @@
+/**
+ * Subjects repository - Credit hours per subject
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+
+export const subjectKeys = {
+  all: ['subjects'] as const,
+};
+
+// Subject name -> credit hours
+export const useSubjectCredits = () => useQuery({
+  queryKey: subjectKeys.all,
+  queryFn: async () => Object.fromEntries((await unwrap(supabase.from('subjects').select('*'))).map(s => [s.name, s.credit_hours])) as Record<string, number>,
+});
+
+export const useSaveSubject = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (subject: TablesInsert<'subjects'>) => unwrap(supabase.from('subjects').upsert(subject)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: subjectKeys.all }),
+  });
+};
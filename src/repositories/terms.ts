@@ -0,0 +1,68 @@
+/**
+ * Terms repository - Academic terms, term rollover and the holidays within them
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+
+export type Term = Tables<'terms'>;
+export type Holiday = Tables<'holidays'>;
+
+export const termKeys = {
+  all: ['terms'] as const,
+  holidays: ['holidays'] as const,
+};
+
+export const useTerms = () => useQuery({
+  queryKey: termKeys.all,
+  queryFn: () => unwrap(supabase.from('terms').select('*').order('starts_on', { ascending: false })),
+});
+
+export const useCreateTerm = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (term: TablesInsert<'terms'>) => unwrap(supabase.from('terms').insert(term)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: termKeys.all }),
+  });
+};
+
+export const useDeleteTerm = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (term: Term) => unwrap(supabase.from('terms').delete().eq('id', term.id)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: termKeys.all }),
+  });
+};
+
+// Archives the active term and activates the next; returns how many students were moved on to their next course
+export const useRolloverTerm = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ term, promote }: { term: Term; promote: boolean }) =>
+      unwrap(supabase.rpc('rollover_term', { next_term: term.id, promote })),
+    // Enrollments, and every list scoped by term, change with the active term
+    onSettled: () => queryClient.invalidateQueries(),
+  });
+};
+
+export const useHolidays = () => useQuery({
+  queryKey: termKeys.holidays,
+  queryFn: () => unwrap(supabase.from('holidays').select('*').order('starts_on')),
+});
+
+export const useCreateHoliday = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (holiday: TablesInsert<'holidays'>) => unwrap(supabase.from('holidays').insert(holiday)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: termKeys.holidays }),
+  });
+};
+
+export const useDeleteHoliday = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (holiday: Holiday) => unwrap(supabase.from('holidays').delete().eq('id', holiday.id)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: termKeys.holidays }),
+  });
+};
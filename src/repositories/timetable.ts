@@ -0,0 +1,68 @@
+/**
+ * Timetable repository - Weekly class slots per course and section
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { unwrap } from '@/lib/query-client';
+import { Course } from '@/repositories/courses';
+
+export type TimetableSlot = Tables<'timetable_slots'> & {
+  course: Pick<Course, 'code' | 'name'> | null;
+  section: Pick<Tables<'sections'>, 'name'> | null;
+  teacher: Pick<Tables<'profiles'>, 'full_name'> | null;
+  term: Pick<Tables<'terms'>, 'name' | 'starts_on' | 'ends_on'> | null;
+};
+
+const WITH_DETAILS = '*, course:courses(code, name), section:sections(name), teacher:profiles(full_name), term:terms(name, starts_on, ends_on)';
+
+export const timetableKeys = {
+  all: ['timetable'] as const,
+  byCourse: (courseId: string) => ['timetable', 'course', courseId] as const,
+  mine: (userId: string) => ['timetable', 'mine', userId] as const,
+};
+
+export const useCourseTimetable = (courseId: string | undefined) => useQuery({
+  queryKey: timetableKeys.byCourse(courseId ?? ''),
+  queryFn: (): Promise<TimetableSlot[]> => unwrap(supabase.from('timetable_slots').select(WITH_DETAILS).eq('course_id', courseId).order('weekday').order('starts_at')),
+  enabled: !!courseId,
+});
+
+// Students get their courses' classes for their own section; teachers the courses they teach; admins everything
+export const useMyTimetable = () => {
+  const { user, profile } = useAuth();
+  return useQuery({
+    queryKey: timetableKeys.mine(user?.id ?? ''),
+    queryFn: async (): Promise<TimetableSlot[]> => {
+      let slots = supabase.from('timetable_slots').select(WITH_DETAILS).order('weekday').order('starts_at');
+      if (profile.role === 'admin') return unwrap(slots);
+      if (profile.role === 'teacher') {
+        const links = await unwrap(supabase.from('course_teachers').select('course_id').eq('teacher_id', user.id));
+        slots = slots.in('course_id', links.map(l => l.course_id));
+        return unwrap(slots);
+      }
+      const enrollments = await unwrap(supabase.from('enrollments').select('course_id, section_id').eq('student_id', user.id));
+      const sectionOf = new Map(enrollments.map(e => [e.course_id, e.section_id]));
+      const data = await unwrap(slots.in('course_id', [...sectionOf.keys()]));
+      return data.filter(s => !s.section_id || s.section_id === sectionOf.get(s.course_id));
+    },
+    enabled: !!user && !!profile,
+  });
+};
+
+export const useCreateSlot = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (slot: TablesInsert<'timetable_slots'>) => unwrap(supabase.from('timetable_slots').insert(slot)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: timetableKeys.all }),
+  });
+};
+
+export const useDeleteSlot = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (slot: TimetableSlot) => unwrap(supabase.from('timetable_slots').delete().eq('id', slot.id)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: timetableKeys.all }),
+  });
+};
@@ -0,0 +1,168 @@
+/**
+ * calendar-feed - Per-user iCalendar (.ics) feed of classes, exams, deadlines, fee due dates and holidays
+ *
+ * Calendar apps cannot sign in, so the feed is fetched with the secret token from calendar_token()
+ * (GET /calendar-feed?token=...) and read with the service role. JWT verification is off in config.toml.
+ * Weekly classes are sent as recurring events that skip holidays.
+ */
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type Event = {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  // Either an all-day span of dates (end exclusive), or a point in time
+  allDay?: { start: string; end: string };
+  at?: string;
+  // Floating local time for weekly classes
+  weekly?: { start: string; end: string; until?: string; except: string[] };
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Dates are handled as UTC midnights so adding days never crosses a DST change
+const parseDate = (date: string) => new Date(`${date}T00:00:00Z`);
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+const addDays = (date: string, days: number) => isoDate(new Date(parseDate(date).getTime() + days * DAY));
+
+const icsDate = (date: string) => date.replace(/-/g, '');
+const icsLocal = (date: string, time: string) => `${icsDate(date)}T${time.replace(/:/g, '').padEnd(6, '0').slice(0, 6)}`;
+const icsUtc = (timestamp: string) => new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// Lines longer than 75 octets continue on the next line after a space
+const fold = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 73) parts.push(line.slice(i, i + 73));
+  return parts.join('\r\n ');
+};
+
+const renderEvent = (event: Event, stamp: string) => {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`, `SUMMARY:${escapeText(event.summary)}`];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.allDay) lines.push(`DTSTART;VALUE=DATE:${icsDate(event.allDay.start)}`, `DTEND;VALUE=DATE:${icsDate(event.allDay.end)}`);
+  if (event.at) lines.push(`DTSTART:${icsUtc(event.at)}`, `DTEND:${icsUtc(event.at)}`);
+  if (event.weekly) {
+    lines.push(`DTSTART:${event.weekly.start}`, `DTEND:${event.weekly.end}`);
+    lines.push(`RRULE:FREQ=WEEKLY${event.weekly.until ? `;UNTIL=${event.weekly.until}` : ''}`);
+    event.weekly.except.forEach(date => lines.push(`EXDATE:${date}`));
+  }
+  lines.push('END:VEVENT');
+  return lines.map(fold).join('\r\n');
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const token = new URL(req.url).searchParams.get('token') ?? '';
+  if (!/^[0-9a-f-]{36}$/i.test(token)) return new Response('Missing or invalid token', { status: 400, headers: corsHeaders });
+
+  const db = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: link } = await db.from('calendar_tokens').select('user_id').eq('token', token).maybeSingle();
+  if (!link) return new Response('Unknown calendar token', { status: 404, headers: corsHeaders });
+  const { data: profile } = await db.from('profiles').select('id, role, active').eq('id', link.user_id).single();
+  if (!profile?.active) return new Response('Account disabled', { status: 403, headers: corsHeaders });
+
+  const isStudent = profile.role === 'student';
+
+  // The courses whose classes appear, with the student's section where they have one
+  const { data: memberships } = isStudent
+    ? await db.from('enrollments').select('course_id, section_id').eq('student_id', profile.id)
+    : await db.from('course_teachers').select('course_id').eq('teacher_id', profile.id);
+  const sectionOf = new Map((memberships ?? []).map(m => [m.course_id, (m as { section_id?: string | null }).section_id ?? null]));
+  const courseIds = [...sectionOf.keys()];
+
+  const [{ data: holidays }, { data: slots }, { data: exams }, { data: assignments }, { data: fees }] = await Promise.all([
+    db.from('holidays').select('*'),
+    db.from('timetable_slots').select('*, course:courses(code, name), term:terms(starts_on, ends_on)').in('course_id', courseIds),
+    db.from('results').select('subject, exam_type, exam_date').eq(isStudent ? 'student_id' : 'teacher_id', profile.id),
+    isStudent
+      ? db.from('assignments').select('id, title, due_date, course:courses(code)').or(courseIds.length ? `course_id.is.null,course_id.in.(${courseIds.join(',')})` : 'course_id.is.null')
+      : db.from('assignments').select('id, title, due_date, course:courses(code)').eq('teacher_id', profile.id),
+    isStudent ? db.from('payments').select('id, payment_type, amount, due_date, status').eq('student_id', profile.id) : Promise.resolve({ data: [] }),
+  ]);
+
+  const holidayDates = (holidays ?? []).flatMap(h => {
+    const dates: string[] = [];
+    for (let d = h.starts_on; d <= h.ends_on; d = addDays(d, 1)) dates.push(d);
+    return dates;
+  });
+
+  const events: Event[] = [];
+
+  (holidays ?? []).forEach(h => events.push({ uid: `holiday-${h.id}@edutrackers`, summary: `Holiday: ${h.name}`, allDay: { start: h.starts_on, end: addDays(h.ends_on, 1) } }));
+
+  (slots ?? [])
+    .filter(s => !isStudent || !s.section_id || s.section_id === sectionOf.get(s.course_id))
+    .forEach(s => {
+      // First occurrence on or after the term start (or the day the slot was added)
+      let first = s.term?.starts_on ?? s.created_at.slice(0, 10);
+      while (parseDate(first).getUTCDay() !== s.weekday) first = addDays(first, 1);
+      const skipped = holidayDates.filter(d => d >= first && (!s.term || d <= s.term.ends_on) && parseDate(d).getUTCDay() === s.weekday);
+      events.push({
+        uid: `class-${s.id}@edutrackers`,
+        summary: `${s.course?.code ?? 'Class'}${s.course?.name ? ` ${s.course.name}` : ''}`,
+        description: `Every ${WEEKDAYS[s.weekday]}`,
+        location: s.room ?? undefined,
+        weekly: {
+          start: icsLocal(first, s.starts_at),
+          end: icsLocal(first, s.ends_at),
+          until: s.term ? `${icsDate(s.term.ends_on)}T235959` : undefined,
+          except: skipped.map(d => icsLocal(d, s.starts_at)),
+        },
+      });
+    });
+
+  // Results hold one row per student, so a teacher's exams are de-duplicated
+  const seenExams = new Set<string>();
+  (exams ?? []).forEach(e => {
+    const key = `${e.subject}|${e.exam_type}|${e.exam_date}`;
+    if (seenExams.has(key)) return;
+    seenExams.add(key);
+    events.push({ uid: `exam-${encodeURIComponent(key)}@edutrackers`, summary: `${e.exam_type}: ${e.subject}`, allDay: { start: e.exam_date, end: addDays(e.exam_date, 1) } });
+  });
+
+  (assignments ?? []).filter(a => a.due_date).forEach(a => events.push({
+    uid: `assignment-${a.id}@edutrackers`,
+    summary: `Due: ${a.title}`,
+    description: (a.course as { code: string } | null)?.code,
+    at: a.due_date,
+  }));
+
+  (fees ?? []).filter(f => f.status !== 'paid').forEach(f => events.push({
+    uid: `fee-${f.id}@edutrackers`,
+    summary: `Fee due: ${f.payment_type}`,
+    description: `Amount ${f.amount}`,
+    allDay: { start: f.due_date, end: addDays(f.due_date, 1) },
+  }));
+
+  const stamp = icsUtc(new Date().toISOString());
+  const body = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//EduTrackers//Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:EduTrackers',
+    ...events.map(e => renderEvent(e, stamp)),
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+  return new Response(`${body}\r\n`, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="edutrackers.ics"',
+    },
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * import-students - Creates or invites student accounts in bulk from a validated CSV roster
+ *
+ * Called from the dashboard by approved teachers and admins with their own session.
+ * New addresses get an invite email; the signup trigger builds their profile from the invite metadata.
+ * Existing students are reused. When a course is given, everyone is enrolled in it.
+ */
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+type Row = { full_name: string; email: string; roll_number: string; course: string };
+type Outcome = { email: string; status: 'invited' | 'existing' | 'error'; message?: string };
+
+const MAX_ROWS = 500;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// The browser validates too; this is the check that counts
+const rowError = (row: Row) => {
+  if (!row.full_name?.trim()) return 'Name is required';
+  if (!EMAIL.test((row.email ?? '').trim())) return 'Invalid email';
+  if (row.roll_number?.trim() && !row.course?.trim()) return 'Course is required with a roll number';
+  return null;
+};
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  // Identify the caller from their own token
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+  const { data: { user } } = await admin.auth.getUser(token);
+  if (!user) return json({ error: 'Not signed in' }, 401);
+
+  const { students, courseId, redirectTo } = await req.json() as { students: Row[]; courseId?: string; redirectTo?: string };
+  if (!Array.isArray(students) || students.length === 0) return json({ error: 'No students to import' }, 400);
+  if (students.length > MAX_ROWS) return json({ error: `Import at most ${MAX_ROWS} students at a time` }, 400);
+
+  const { data: caller } = await admin.from('profiles').select('role, approved, active').eq('id', user.id).single();
+  const isAdmin = caller?.role === 'admin' && caller.active;
+  const isTeacher = caller?.role === 'teacher' && caller.approved && caller.active;
+  if (!isAdmin && !isTeacher) return json({ error: 'Only teachers and admins can import students' }, 403);
+  if (courseId && !isAdmin) {
+    const { data: teaches } = await admin.rpc('teaches_course', { user_id: user.id, course_id: courseId });
+    if (!teaches) return json({ error: 'You can only enroll students in courses you teach' }, 403);
+  }
+
+  const emails = students.map(s => (s.email ?? '').trim().toLowerCase());
+  const { data: existing, error } = await admin.from('profiles').select('id, email, role').in('email', emails);
+  if (error) return json({ error: error.message }, 500);
+  const byEmail = new Map(existing.map(p => [p.email.toLowerCase(), p]));
+
+  const results: Outcome[] = [];
+  const studentIds: string[] = [];
+
+  for (const row of students) {
+    const email = (row.email ?? '').trim().toLowerCase();
+    const invalid = rowError(row);
+    if (invalid) {
+      results.push({ email, status: 'error', message: invalid });
+      continue;
+    }
+
+    const profile = byEmail.get(email);
+    if (profile) {
+      if (profile.role !== 'student') results.push({ email, status: 'error', message: `Already registered as ${profile.role}` });
+      else {
+        studentIds.push(profile.id);
+        results.push({ email, status: 'existing' });
+      }
+      continue;
+    }
+
+    const { data, error: inviteError } = await admin.auth.admin.inviteUserByEmail(email, {
+      redirectTo,
+      data: {
+        full_name: row.full_name.trim(),
+        role: 'student',
+        roll_number: row.roll_number?.trim(),
+        course: row.course?.trim(),
+      },
+    });
+    if (inviteError) results.push({ email, status: 'error', message: inviteError.message });
+    else {
+      studentIds.push(data.user.id);
+      results.push({ email, status: 'invited' });
+    }
+  }
+
+  if (courseId && studentIds.length > 0) {
+    const { error: enrollError } = await admin.from('enrollments')
+      .upsert(studentIds.map(id => ({ course_id: courseId, student_id: id })), { onConflict: 'student_id,course_id,term_id', ignoreDuplicates: true });
+    if (enrollError) return json({ results, error: enrollError.message }, 500);
+  }
+
+  return json({ results });
+});
@@ -0,0 +1,105 @@
+/**
+ * Email adapter tests - run with `deno test --allow-env --allow-read --allow-write --allow-net supabase/functions/send-emails`
+ */
+import { assertEquals, assertStringIncludes, assertThrows } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { createAdapter, EmailMessage } from './adapters.ts';
+
+const message: EmailMessage = {
+  to: 'student@example.com',
+  from: 'EduTrackers <no-reply@edutrackers.local>',
+  subject: 'New assignment: Essay',
+  text: 'Due Mar 10, 2026',
+  html: '<p>Due Mar 10, 2026</p>',
+};
+
+// Just enough SMTP to accept one message; resolves with the commands and the DATA payload it received
+const fakeSmtpServer = () => {
+  const listener = Deno.listen({ hostname: '127.0.0.1', port: 0 });
+  const received = (async () => {
+    const conn = await listener.accept();
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    const reply = (line: string) => conn.write(encoder.encode(`${line}\r\n`));
+    const commands: string[] = [];
+    let data = '';
+    let inData = false;
+    let buffer = '';
+
+    await reply('220 localhost ESMTP');
+    const chunk = new Uint8Array(4096);
+    for (let n = await conn.read(chunk); n !== null; n = await conn.read(chunk)) {
+      buffer += decoder.decode(chunk.subarray(0, n));
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) continue;
+        data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        await reply('250 OK');
+      }
+      let newline;
+      while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO' || verb === 'HELO') await reply('250 localhost');
+        else if (verb === 'DATA') {
+          inData = true;
+          await reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (verb === 'QUIT') {
+          await reply('221 Bye');
+          conn.close();
+          listener.close();
+          return { commands, data };
+        } else await reply('250 OK');
+      }
+    }
+    listener.close();
+    return { commands, data };
+  })();
+  return { port: (listener.addr as Deno.NetAddr).port, received };
+};
+
+Deno.test('file adapter writes one .eml per message', async () => {
+  const dir = await Deno.makeTempDir();
+  Deno.env.set('EMAIL_SINK_DIR', dir);
+  try {
+    const adapter = createAdapter('file');
+    await adapter.send(message);
+
+    const files = [];
+    for await (const entry of Deno.readDir(dir)) files.push(entry.name);
+    assertEquals(files.length, 1);
+    assertStringIncludes(files[0], '.eml');
+
+    const eml = await Deno.readTextFile(`${dir}/${files[0]}`);
+    assertStringIncludes(eml, `To: ${message.to}\r\n`);
+    assertStringIncludes(eml, `Subject: ${message.subject}\r\n`);
+    assertStringIncludes(eml, `\r\n\r\n${message.text}`);
+  } finally {
+    Deno.env.delete('EMAIL_SINK_DIR');
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test('smtp adapter delivers to the configured server', async () => {
+  const server = fakeSmtpServer();
+  Deno.env.set('SMTP_HOST', '127.0.0.1');
+  Deno.env.set('SMTP_PORT', String(server.port));
+  try {
+    await createAdapter('smtp').send(message);
+
+    const { commands, data } = await server.received;
+    assertEquals(commands.some(c => c.toUpperCase().startsWith('MAIL FROM:') && c.includes('no-reply@edutrackers.local')), true);
+    assertEquals(commands.some(c => c.toUpperCase().startsWith('RCPT TO:') && c.includes(message.to)), true);
+    assertStringIncludes(data, message.subject);
+  } finally {
+    Deno.env.delete('SMTP_HOST');
+    Deno.env.delete('SMTP_PORT');
+  }
+});
+
+Deno.test('unknown adapters are rejected', () => {
+  assertThrows(() => createAdapter('carrier-pigeon'), Error, 'Unknown EMAIL_ADAPTER');
+});
@@ -0,0 +1,89 @@
+/**
+ * Email adapters - Pluggable delivery backends for the send-emails worker
+ *
+ * Pick one with EMAIL_ADAPTER:
+ *   smtp    - any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_TLS). Locally this
+ *             is the Inbucket/Mailpit container started by `supabase start`.
+ *   file    - writes each message as an .eml file under EMAIL_SINK_DIR (default /tmp/emails)
+ *   console - logs the message; the default, so nothing is sent by accident
+ */
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export type EmailMessage = {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export interface EmailAdapter {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+const smtpAdapter = (): EmailAdapter => {
+  const port = Number(Deno.env.get('SMTP_PORT') ?? 2500);
+  const username = Deno.env.get('SMTP_USER');
+  const password = Deno.env.get('SMTP_PASS');
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: Deno.env.get('SMTP_HOST') ?? 'localhost',
+          port,
+          tls: Deno.env.get('SMTP_TLS') === 'true',
+          auth: username && password ? { username, password } : undefined,
+        },
+      });
+      try {
+        await client.send({ from: message.from, to: message.to, subject: message.subject, content: message.text, html: message.html });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+};
+
+const fileAdapter = (): EmailAdapter => {
+  const dir = Deno.env.get('EMAIL_SINK_DIR') ?? '/tmp/emails';
+
+  return {
+    name: 'file',
+    async send(message) {
+      await Deno.mkdir(dir, { recursive: true });
+      const eml = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+      ].join('\r\n');
+      await Deno.writeTextFile(`${dir}/${Date.now()}-${crypto.randomUUID()}.eml`, eml);
+    },
+  };
+};
+
+const consoleAdapter = (): EmailAdapter => ({
+  name: 'console',
+  send(message) {
+    console.log(`[email] to=${message.to} subject="${message.subject}"\n${message.text}`);
+    return Promise.resolve();
+  },
+});
+
+const adapters: Record<string, () => EmailAdapter> = {
+  smtp: smtpAdapter,
+  file: fileAdapter,
+  console: consoleAdapter,
+};
+
+export const createAdapter = (name = Deno.env.get('EMAIL_ADAPTER') ?? 'console'): EmailAdapter => {
+  const create = adapters[name];
+  if (!create) throw new Error(`Unknown EMAIL_ADAPTER "${name}" (expected ${Object.keys(adapters).join(', ')})`);
+  return create();
+};
@@ -0,0 +1,59 @@
+/**
+ * send-emails - Outbox worker: claims due emails, renders and delivers them, records the outcome
+ *
+ * Invoked every minute by pg_cron (see the email outbox migration) with the service role key.
+ * Failed sends are retried with exponential backoff until max_attempts, then marked failed.
+ */
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createAdapter } from './adapters.ts';
+import { renderEmail } from './templates.ts';
+
+const BATCH_SIZE = 20;
+const BASE_DELAY_SECONDS = 60;
+const MAX_DELAY_SECONDS = 6 * 60 * 60;
+
+// 1m, 2m, 4m, ... capped at 6h
+const backoffSeconds = (attempts: number) => Math.min(BASE_DELAY_SECONDS * 2 ** (attempts - 1), MAX_DELAY_SECONDS);
+
+Deno.serve(async req => {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Only the cron job may run the worker; a user's JWT passes the gateway but must not get here
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+  if (token !== serviceKey) return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 });
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceKey);
+  const adapter = createAdapter();
+  const from = Deno.env.get('EMAIL_FROM') ?? 'EduTrackers <no-reply@edutrackers.local>';
+
+  const { data: batch, error } = await supabase.rpc('claim_email_batch', { batch_size: BATCH_SIZE });
+  if (error) return new Response(JSON.stringify({ error: error.message }), { status: 500 });
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const email of batch) {
+    try {
+      const message = renderEmail(email.template, email.data);
+      await adapter.send({ ...message, to: email.to_email, from });
+      await supabase.from('email_outbox')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), last_error: null })
+        .eq('id', email.id);
+      sent++;
+    } catch (err) {
+      const gaveUp = email.attempts >= email.max_attempts;
+      await supabase.from('email_outbox')
+        .update({
+          status: gaveUp ? 'failed' : 'pending',
+          last_error: (err as Error).message,
+          next_attempt_at: new Date(Date.now() + backoffSeconds(email.attempts) * 1000).toISOString(),
+        })
+        .eq('id', email.id);
+      failed++;
+    }
+  }
+
+  return new Response(JSON.stringify({ adapter: adapter.name, claimed: batch.length, sent, failed }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+});
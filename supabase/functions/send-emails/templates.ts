@@ -0,0 +1,57 @@
+/**
+ * Email templates - Turn an outbox row's template name and data into a message
+ */
+type TemplateData = Record<string, unknown>;
+
+export type RenderedEmail = { subject: string; text: string; html: string };
+
+const APP_URL = Deno.env.get('APP_URL') ?? 'http://localhost:8080';
+
+const formatDate = (value: unknown) =>
+  value ? new Date(String(value)).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' }) : 'no due date';
+
+const formatAmount = (value: unknown) =>
+  Number(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Each template returns plain-text paragraphs; the HTML body is derived from them
+const templates: Record<string, (data: TemplateData) => { subject: string; lines: string[]; link: string }> = {
+  assignment_created: data => ({
+    subject: `New assignment: ${data.title}`,
+    lines: [
+      `A new assignment "${data.title}" has been posted.`,
+      `Due: ${formatDate(data.due_date)}`,
+      ...(data.description ? [String(data.description)] : []),
+    ],
+    link: '/dashboard',
+  }),
+  assignment_due_soon: data => ({
+    subject: `Reminder: ${data.title} is due soon`,
+    lines: [`"${data.title}" is due ${formatDate(data.due_date)} and you have not submitted it yet.`],
+    link: '/dashboard',
+  }),
+  payment_overdue: data => ({
+    subject: `Overdue fee: ${data.payment_type}`,
+    lines: [
+      `Your ${data.payment_type} fee${data.semester ? ` for ${data.semester}` : ''} of ${formatAmount(data.amount)} was due ${formatDate(data.due_date)}.`,
+      'Please pay it as soon as possible.',
+    ],
+    link: '/fees',
+  }),
+};
+
+export const renderEmail = (template: string, data: TemplateData): RenderedEmail => {
+  const render = templates[template];
+  if (!render) throw new Error(`Unknown email template "${template}"`);
+  const { subject, lines, link } = render(data);
+  const greeting = `Hi ${data.full_name ?? 'there'},`;
+  const url = `${APP_URL}${link}`;
+
+  return {
+    subject,
+    text: [greeting, ...lines, `Open EduTrackers: ${url}`].join('\n\n'),
+    html: [greeting, ...lines].map(l => `<p>${escapeHtml(l)}</p>`).join('') + `<p><a href="${escapeHtml(url)}">Open EduTrackers</a></p>`,
+  };
+};
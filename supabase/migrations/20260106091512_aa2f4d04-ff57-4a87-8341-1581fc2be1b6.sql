@@ -0,0 +1,13 @@
+-- Let users remove files they uploaded (e.g. when replacing an assignment attachment)
+CREATE POLICY "Users can delete their own files"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'assignments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Teachers can only create assignments in their own name
+DROP POLICY IF EXISTS "Teachers can create assignments" ON public.assignments;
+
+CREATE POLICY "Teachers can create assignments"
+ON public.assignments
+FOR INSERT
+WITH CHECK (teacher_id = auth.uid() AND is_teacher(auth.uid()));
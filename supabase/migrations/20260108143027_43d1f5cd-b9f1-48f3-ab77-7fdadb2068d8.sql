@@ -0,0 +1,82 @@
+-- Students can replace their own submission until the assignment is due
+CREATE POLICY "Students can update their own submissions before the deadline"
+ON public.assignment_submissions
+FOR UPDATE
+USING (
+  student_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM assignments
+    WHERE assignments.id = assignment_submissions.assignment_id
+    AND (assignments.due_date IS NULL OR assignments.due_date > now())
+  )
+)
+WITH CHECK (student_id = auth.uid());
+
+-- Grading columns belong to teachers and admins; submitted_at is always set by the server
+CREATE OR REPLACE FUNCTION protect_submission_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF is_teacher(auth.uid()) OR is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status IS DISTINCT FROM 'submitted' THEN
+      RAISE EXCEPTION 'Submission has already been graded';
+    END IF;
+    NEW.assignment_id := OLD.assignment_id;
+    NEW.student_id := OLD.student_id;
+  END IF;
+
+  NEW.grade := NULL;
+  NEW.feedback := NULL;
+  NEW.status := 'submitted';
+  NEW.submitted_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_submission_fields
+  BEFORE INSERT OR UPDATE ON public.assignment_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_submission_fields();
+
+-- Submissions live in a private bucket under the student's id; the row stores the path, not a public URL.
+-- A file is readable by whoever can read a submission of that student pointing at it (the student and their teachers)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('submissions', 'submissions', false);
+
+CREATE POLICY "Students can upload their own submission files"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'submissions' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Submission files are visible with their submission"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'submissions' AND (
+      auth.uid()::text = (storage.foldername(name))[1]
+      OR EXISTS (
+        SELECT 1 FROM public.assignment_submissions
+        WHERE assignment_submissions.file_url = objects.name
+          AND assignment_submissions.student_id::text = (storage.foldername(objects.name))[1]
+      )
+    )
+  );
+
+CREATE POLICY "Students can delete their own submission files"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'submissions' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- The public bucket now only holds teachers' assignment attachments, each under the uploader's id
+DROP POLICY IF EXISTS "Authenticated users can upload assignment files" ON storage.objects;
+CREATE POLICY "Teachers can upload assignment files to their own folder"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'assignments' AND
+    auth.uid()::text = (storage.foldername(name))[1] AND
+    is_teacher(auth.uid())
+  );
@@ -0,0 +1,9 @@
+-- Submission grading lifecycle: submitted -> graded -> returned
+ALTER TABLE public.assignment_submissions
+  ADD CONSTRAINT assignment_submissions_status_check
+  CHECK (status IN ('submitted', 'graded', 'returned'));
+
+-- A grade is required before a submission can leave the submitted state
+ALTER TABLE public.assignment_submissions
+  ADD CONSTRAINT assignment_submissions_graded_check
+  CHECK (status = 'submitted' OR grade IS NOT NULL);
@@ -0,0 +1,9 @@
+-- Marks must stay within the exam's total
+ALTER TABLE public.results
+  ADD CONSTRAINT results_marks_check
+  CHECK (marks_obtained >= 0 AND total_marks > 0 AND marks_obtained <= total_marks);
+
+-- One row per student per exam, so the gradebook can upsert a whole class at once
+ALTER TABLE public.results
+  ADD CONSTRAINT results_student_exam_key
+  UNIQUE (student_id, subject, exam_type, exam_date);
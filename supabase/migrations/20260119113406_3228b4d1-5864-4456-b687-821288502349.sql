@@ -0,0 +1,60 @@
+-- Single-row grading scheme shared by the gradebook and student results
+CREATE TABLE public.grading_scheme (
+  id INT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  bands JSONB NOT NULL,
+  weights JSONB NOT NULL,
+  best_of JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.grading_scheme (bands, weights, best_of) VALUES (
+  '[
+    {"letter": "A+", "min": 80, "point": 4.0},
+    {"letter": "A", "min": 75, "point": 3.75},
+    {"letter": "A-", "min": 70, "point": 3.5},
+    {"letter": "B+", "min": 65, "point": 3.25},
+    {"letter": "B", "min": 60, "point": 3.0},
+    {"letter": "B-", "min": 55, "point": 2.75},
+    {"letter": "C+", "min": 50, "point": 2.5},
+    {"letter": "C", "min": 45, "point": 2.25},
+    {"letter": "D", "min": 40, "point": 2.0},
+    {"letter": "F", "min": 0, "point": 0}
+  ]'::jsonb,
+  '{"CT": 20, "Midterm": 30, "Final": 50}'::jsonb,
+  '{"CT": 3}'::jsonb
+);
+
+-- Credit hours per subject, used to weight GPA
+CREATE TABLE public.subjects (
+  name TEXT PRIMARY KEY,
+  credit_hours NUMERIC NOT NULL DEFAULT 3 CHECK (credit_hours > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.grading_scheme ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.subjects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view the grading scheme"
+ON public.grading_scheme
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Teachers can update the grading scheme"
+ON public.grading_scheme
+FOR UPDATE
+USING (is_teacher(auth.uid()));
+
+CREATE POLICY "Everyone can view subjects"
+ON public.subjects
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Teachers can manage subjects"
+ON public.subjects
+FOR ALL
+USING (is_teacher(auth.uid()));
+
+CREATE TRIGGER update_grading_scheme_updated_at
+  BEFORE UPDATE ON public.grading_scheme
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,140 @@
+-- Typed payment status instead of free text
+CREATE TYPE payment_status AS ENUM ('pending', 'paid', 'overdue');
+
+UPDATE public.payments SET status = 'pending' WHERE status IS NULL OR status NOT IN ('pending', 'paid', 'overdue');
+
+ALTER TABLE public.payments ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.payments ALTER COLUMN status TYPE payment_status USING status::payment_status;
+ALTER TABLE public.payments ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE public.payments ALTER COLUMN status SET NOT NULL;
+
+-- Undoing a payment always leaves a record behind
+CREATE TABLE public.payment_reversals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  previous_paid_date DATE,
+  reversed_by UUID NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payment_reversals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view payment reversals"
+ON public.payment_reversals
+FOR SELECT
+USING (is_teacher(auth.uid()));
+
+CREATE POLICY "Students can view reversals of their payments"
+ON public.payment_reversals
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM payments
+  WHERE payments.id = payment_reversals.payment_id AND payments.student_id = auth.uid()
+));
+
+-- Status state machine:
+--   pending -> overdue   once due_date has passed
+--   pending -> paid, overdue -> paid   paid_date is recorded automatically
+--   overdue -> pending   only when the due date is moved into the future
+--   paid -> pending/overdue   only through reverse_payment()
+CREATE OR REPLACE FUNCTION enforce_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'paid' THEN
+      NEW.paid_date := COALESCE(NEW.paid_date, current_date);
+    ELSIF NEW.due_date < current_date THEN
+      NEW.status := 'overdue';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    -- Moving the due date of an overdue item forward reopens it
+    IF NEW.status = 'overdue' AND NEW.due_date >= current_date THEN
+      NEW.status := 'pending';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'paid' THEN
+    NEW.paid_date := COALESCE(NEW.paid_date, current_date);
+  ELSIF OLD.status = 'paid' THEN
+    IF current_setting('app.payment_reversal', true) IS DISTINCT FROM OLD.id::text THEN
+      RAISE EXCEPTION 'Paid payments can only be reopened with reverse_payment()';
+    END IF;
+    NEW.paid_date := NULL;
+    NEW.status := CASE WHEN NEW.due_date < current_date THEN 'overdue' ELSE 'pending' END::payment_status;
+  ELSIF NEW.status = 'overdue' AND NEW.due_date >= current_date THEN
+    RAISE EXCEPTION 'Payment is not past its due date';
+  ELSIF NEW.status = 'pending' AND NEW.due_date < current_date THEN
+    RAISE EXCEPTION 'Move the due date forward to reopen an overdue payment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_payment_status
+  BEFORE INSERT OR UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_payment_status();
+
+-- Reopen a paid payment, recording who did it and why
+CREATE OR REPLACE FUNCTION reverse_payment(payment_id UUID, reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target payments%ROWTYPE;
+BEGIN
+  IF NOT is_teacher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only teachers can reverse payments';
+  END IF;
+  IF COALESCE(trim(reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reverse a payment';
+  END IF;
+
+  SELECT * INTO target FROM payments WHERE id = reverse_payment.payment_id FOR UPDATE;
+  IF NOT FOUND OR target.status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid payments can be reversed';
+  END IF;
+
+  INSERT INTO payment_reversals (payment_id, reason, previous_paid_date)
+  VALUES (target.id, reason, target.paid_date);
+
+  PERFORM set_config('app.payment_reversal', target.id::text, true);
+  UPDATE payments SET status = 'pending' WHERE id = target.id;
+  PERFORM set_config('app.payment_reversal', '', true);
+END;
+$$;
+
+-- Flag every pending payment whose due date has passed; returns how many changed
+CREATE OR REPLACE FUNCTION mark_overdue_payments()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed INTEGER;
+BEGIN
+  UPDATE payments SET status = 'overdue'
+  WHERE status = 'pending' AND due_date < current_date;
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  RETURN changed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_overdue_payments() FROM PUBLIC, anon, authenticated;
+
+-- Run the overdue check every night shortly after midnight
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+
+SELECT cron.schedule('mark-overdue-payments', '5 0 * * *', $$SELECT public.mark_overdue_payments()$$);
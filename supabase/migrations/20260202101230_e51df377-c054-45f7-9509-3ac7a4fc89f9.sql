@@ -0,0 +1,2 @@
+-- Admin role (added on its own so later migrations can use the new value)
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'admin';
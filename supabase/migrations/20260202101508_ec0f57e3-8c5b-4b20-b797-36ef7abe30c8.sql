@@ -0,0 +1,241 @@
+-- Teacher accounts need admin approval; any account can be deactivated
+ALTER TABLE public.profiles ADD COLUMN approved BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE public.profiles ADD COLUMN active BOOLEAN NOT NULL DEFAULT true;
+
+-- Security definer check for admins (bypasses RLS like is_teacher)
+CREATE OR REPLACE FUNCTION is_admin(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = user_id AND role = 'admin'::user_role AND active
+  );
+$$;
+
+-- Teacher privileges only apply once approved, and never to deactivated accounts
+CREATE OR REPLACE FUNCTION is_teacher(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = user_id AND role = 'teacher'::user_role AND approved AND active
+  );
+$$;
+
+-- Signups can never pick admin, and teacher signups wait for approval
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  requested_role user_role := CASE
+    WHEN NEW.raw_user_meta_data->>'role' = 'teacher' THEN 'teacher'::user_role
+    ELSE 'student'::user_role
+  END;
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, role, approved)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'User'),
+    requested_role,
+    requested_role <> 'teacher'
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Only admins may change role, approval or active state, including on their own profile
+CREATE OR REPLACE FUNCTION protect_profile_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin(auth.uid()) THEN
+    NEW.role := OLD.role;
+    NEW.approved := OLD.approved;
+    NEW.active := OLD.active;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_fields
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_fields();
+
+-- Admin policies on profiles
+CREATE POLICY "Admins can view all profiles"
+ON public.profiles
+FOR SELECT
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update all profiles"
+ON public.profiles
+FOR UPDATE
+USING (is_admin(auth.uid()));
+
+-- Policies that checked the role inline now go through is_teacher, so pending teachers get nothing
+DROP POLICY IF EXISTS "Teachers can view all submissions" ON public.assignment_submissions;
+CREATE POLICY "Teachers can view all submissions"
+ON public.assignment_submissions
+FOR SELECT
+USING (is_teacher(auth.uid()));
+
+DROP POLICY IF EXISTS "Teachers can update submissions (for grading)" ON public.assignment_submissions;
+CREATE POLICY "Teachers can update submissions (for grading)"
+ON public.assignment_submissions
+FOR UPDATE
+USING (is_teacher(auth.uid()));
+
+DROP POLICY IF EXISTS "Teachers can view all results" ON public.results;
+CREATE POLICY "Teachers can view all results"
+ON public.results
+FOR SELECT
+USING (is_teacher(auth.uid()));
+
+DROP POLICY IF EXISTS "Teachers can create results" ON public.results;
+CREATE POLICY "Teachers can create results"
+ON public.results
+FOR INSERT
+WITH CHECK (teacher_id = auth.uid() AND is_teacher(auth.uid()));
+
+DROP POLICY IF EXISTS "Teachers can update results" ON public.results;
+CREATE POLICY "Teachers can update results"
+ON public.results
+FOR UPDATE
+USING (teacher_id = auth.uid() AND is_teacher(auth.uid()));
+
+DROP POLICY IF EXISTS "Teachers can view all payments" ON public.payments;
+CREATE POLICY "Teachers can view all payments"
+ON public.payments
+FOR SELECT
+USING (is_teacher(auth.uid()));
+
+DROP POLICY IF EXISTS "Teachers can manage payments" ON public.payments;
+CREATE POLICY "Teachers can manage payments"
+ON public.payments
+FOR ALL
+USING (is_teacher(auth.uid()) OR is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Teachers can view payment reversals" ON public.payment_reversals;
+CREATE POLICY "Teachers can view payment reversals"
+ON public.payment_reversals
+FOR SELECT
+USING (is_teacher(auth.uid()) OR is_admin(auth.uid()));
+
+-- Admins can reverse payments too
+CREATE OR REPLACE FUNCTION reverse_payment(payment_id UUID, reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target payments%ROWTYPE;
+BEGIN
+  IF NOT (is_teacher(auth.uid()) OR is_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Only teachers and admins can reverse payments';
+  END IF;
+  IF COALESCE(trim(reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reverse a payment';
+  END IF;
+
+  SELECT * INTO target FROM payments WHERE id = reverse_payment.payment_id FOR UPDATE;
+  IF NOT FOUND OR target.status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid payments can be reversed';
+  END IF;
+
+  INSERT INTO payment_reversals (payment_id, reason, previous_paid_date)
+  VALUES (target.id, reason, target.paid_date);
+
+  PERFORM set_config('app.payment_reversal', target.id::text, true);
+  UPDATE payments SET status = 'pending' WHERE id = target.id;
+  PERFORM set_config('app.payment_reversal', '', true);
+END;
+$$;
+
+DROP POLICY IF EXISTS "Teachers can create announcements" ON public.announcements;
+CREATE POLICY "Teachers can create announcements"
+ON public.announcements
+FOR INSERT
+WITH CHECK (teacher_id = auth.uid() AND is_teacher(auth.uid()));
+
+-- Deactivating also bans sign-in so the account is locked out everywhere
+CREATE OR REPLACE FUNCTION admin_set_active(target_id UUID, is_active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can change account status';
+  END IF;
+  IF target_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account';
+  END IF;
+
+  UPDATE profiles SET active = is_active WHERE id = target_id;
+  UPDATE auth.users
+  SET banned_until = CASE WHEN is_active THEN NULL ELSE 'infinity'::timestamptz END
+  WHERE id = target_id;
+END;
+$$;
+
+-- Marks and coursework a teacher recorded are deleted with them, taking students' records along;
+-- later features that hang student data off a teacher extend this check
+CREATE OR REPLACE FUNCTION owns_student_records(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM results WHERE teacher_id = owns_student_records.user_id)
+    OR EXISTS (SELECT 1 FROM assignments WHERE teacher_id = owns_student_records.user_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION owns_student_records(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Deleting the auth user cascades to the profile and everything that references it
+CREATE OR REPLACE FUNCTION admin_delete_user(target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can delete users';
+  END IF;
+  IF target_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot delete your own account';
+  END IF;
+  IF owns_student_records(target_id) THEN
+    RAISE EXCEPTION 'This teacher still owns marks or coursework that students depend on; deactivate the account instead';
+  END IF;
+
+  DELETE FROM auth.users WHERE id = target_id;
+END;
+$$;
+
+-- Keep payment reversal history when the teacher who made it is deleted
+ALTER TABLE public.payment_reversals ALTER COLUMN reversed_by DROP NOT NULL;
+ALTER TABLE public.payment_reversals
+  DROP CONSTRAINT payment_reversals_reversed_by_fkey,
+  ADD CONSTRAINT payment_reversals_reversed_by_fkey
+  FOREIGN KEY (reversed_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
@@ -0,0 +1,262 @@
+-- Courses, sections and enrollments replace free-text course matching
+CREATE TABLE public.courses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  department TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.sections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (course_id, name)
+);
+
+-- Which teachers teach which courses
+CREATE TABLE public.course_teachers (
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (course_id, teacher_id)
+);
+
+CREATE TABLE public.enrollments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  section_id UUID REFERENCES public.sections(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (student_id, course_id)
+);
+
+-- Membership checks used by policies (security definer to avoid RLS recursion)
+CREATE OR REPLACE FUNCTION is_enrolled(user_id UUID, course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM enrollments
+    WHERE enrollments.student_id = is_enrolled.user_id AND enrollments.course_id = is_enrolled.course_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION teaches_course(user_id UUID, course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT is_teacher(teaches_course.user_id) AND EXISTS (
+    SELECT 1 FROM course_teachers
+    WHERE course_teachers.teacher_id = teaches_course.user_id AND course_teachers.course_id = teaches_course.course_id
+  );
+$$;
+
+-- Carry the old free-text courses over as real courses
+INSERT INTO public.courses (code, name)
+SELECT DISTINCT trim(course), trim(course) FROM (
+  SELECT course FROM public.profiles
+  UNION SELECT course FROM public.assignments
+) AS existing
+WHERE COALESCE(trim(course), '') <> ''
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO public.enrollments (student_id, course_id)
+SELECT profiles.id, courses.id FROM public.profiles
+JOIN public.courses ON courses.code = trim(profiles.course)
+WHERE profiles.role = 'student'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.course_teachers (course_id, teacher_id)
+SELECT DISTINCT courses.id, assignments.teacher_id FROM public.assignments
+JOIN public.courses ON courses.code = trim(assignments.course)
+ON CONFLICT DO NOTHING;
+
+-- Assignments belong to a course (NULL still means every student)
+ALTER TABLE public.assignments ADD COLUMN course_id UUID REFERENCES public.courses(id) ON DELETE CASCADE;
+UPDATE public.assignments SET course_id = courses.id FROM public.courses WHERE courses.code = trim(assignments.course);
+ALTER TABLE public.assignments DROP COLUMN course;
+
+-- Announcements can target one course (NULL means everyone)
+ALTER TABLE public.announcements ADD COLUMN course_id UUID REFERENCES public.courses(id) ON DELETE CASCADE;
+
+-- Results are recorded against a course
+ALTER TABLE public.results ADD COLUMN course_id UUID REFERENCES public.courses(id) ON DELETE SET NULL;
+UPDATE public.results SET course_id = courses.id FROM public.courses
+WHERE courses.code = results.subject OR courses.name = results.subject;
+
+-- RLS
+ALTER TABLE public.courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.course_teachers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view courses"
+ON public.courses FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage courses"
+ON public.courses FOR ALL
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Everyone can view sections"
+ON public.sections FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage sections"
+ON public.sections FOR ALL
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Everyone can view course teachers"
+ON public.course_teachers FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage course teachers"
+ON public.course_teachers FOR ALL
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Students can view their own enrollments"
+ON public.enrollments FOR SELECT
+USING (student_id = auth.uid());
+
+CREATE POLICY "Teachers and admins can view enrollments"
+ON public.enrollments FOR SELECT
+USING (is_teacher(auth.uid()) OR is_admin(auth.uid()));
+
+CREATE POLICY "Course teachers and admins can manage enrollments"
+ON public.enrollments FOR ALL
+USING (is_admin(auth.uid()) OR teaches_course(auth.uid(), course_id))
+WITH CHECK (is_admin(auth.uid()) OR teaches_course(auth.uid(), course_id));
+
+-- Students only see assignments and announcements for courses they are enrolled in
+DROP POLICY IF EXISTS "Everyone can view assignments" ON public.assignments;
+CREATE POLICY "Members can view assignments"
+ON public.assignments FOR SELECT
+USING (course_id IS NULL OR is_teacher(auth.uid()) OR is_admin(auth.uid()) OR is_enrolled(auth.uid(), course_id));
+
+DROP POLICY IF EXISTS "Teachers can create assignments" ON public.assignments;
+CREATE POLICY "Teachers can create assignments"
+ON public.assignments FOR INSERT
+WITH CHECK (
+  teacher_id = auth.uid() AND is_teacher(auth.uid())
+  AND (course_id IS NULL OR teaches_course(auth.uid(), course_id))
+);
+
+DROP POLICY IF EXISTS "Everyone can view announcements" ON public.announcements;
+CREATE POLICY "Members can view announcements"
+ON public.announcements FOR SELECT
+USING (course_id IS NULL OR is_teacher(auth.uid()) OR is_admin(auth.uid()) OR is_enrolled(auth.uid(), course_id));
+
+DROP POLICY IF EXISTS "Teachers can create announcements" ON public.announcements;
+CREATE POLICY "Teachers can create announcements"
+ON public.announcements FOR INSERT
+WITH CHECK (
+  teacher_id = auth.uid() AND is_teacher(auth.uid())
+  AND (course_id IS NULL OR teaches_course(auth.uid(), course_id))
+);
+
+-- Teachers see and grade work only for the courses they teach; assignments for everyone stay with their author
+DROP POLICY IF EXISTS "Teachers can view all submissions" ON public.assignment_submissions;
+CREATE POLICY "Course teachers and admins can view submissions"
+ON public.assignment_submissions FOR SELECT
+USING (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM assignments
+  WHERE assignments.id = assignment_id
+    AND (teaches_course(auth.uid(), assignments.course_id)
+      OR (assignments.course_id IS NULL AND assignments.teacher_id = auth.uid() AND is_teacher(auth.uid())))
+));
+
+DROP POLICY IF EXISTS "Teachers can update submissions (for grading)" ON public.assignment_submissions;
+CREATE POLICY "Course teachers and admins can update submissions (for grading)"
+ON public.assignment_submissions FOR UPDATE
+USING (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM assignments
+  WHERE assignments.id = assignment_id
+    AND (teaches_course(auth.uid(), assignments.course_id)
+      OR (assignments.course_id IS NULL AND assignments.teacher_id = auth.uid() AND is_teacher(auth.uid())))
+));
+
+-- Results likewise; marks recorded before courses existed stay visible to whoever entered them
+DROP POLICY IF EXISTS "Teachers can view all results" ON public.results;
+CREATE POLICY "Course teachers and admins can view results"
+ON public.results FOR SELECT
+USING (
+  is_admin(auth.uid()) OR teaches_course(auth.uid(), course_id)
+  OR (teacher_id = auth.uid() AND is_teacher(auth.uid()))
+);
+
+DROP POLICY IF EXISTS "Teachers can create results" ON public.results;
+CREATE POLICY "Course teachers and admins can create results"
+ON public.results FOR INSERT
+WITH CHECK (
+  is_admin(auth.uid())
+  OR (teacher_id = auth.uid() AND teaches_course(auth.uid(), course_id))
+);
+
+-- Fees likewise: teachers only see and bill students enrolled in a course they teach
+DROP POLICY IF EXISTS "Teachers can view all payments" ON public.payments;
+CREATE POLICY "Course teachers and admins can view payments"
+ON public.payments FOR SELECT
+USING (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM enrollments
+  WHERE enrollments.student_id = payments.student_id AND teaches_course(auth.uid(), enrollments.course_id)
+));
+
+DROP POLICY IF EXISTS "Teachers can manage payments" ON public.payments;
+CREATE POLICY "Course teachers and admins can manage payments"
+ON public.payments FOR ALL
+USING (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM enrollments
+  WHERE enrollments.student_id = payments.student_id AND teaches_course(auth.uid(), enrollments.course_id)
+))
+WITH CHECK (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM enrollments
+  WHERE enrollments.student_id = payments.student_id AND teaches_course(auth.uid(), enrollments.course_id)
+));
+
+DROP POLICY IF EXISTS "Teachers can view payment reversals" ON public.payment_reversals;
+CREATE POLICY "Course teachers and admins can view payment reversals"
+ON public.payment_reversals FOR SELECT
+USING (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM payments JOIN enrollments ON enrollments.student_id = payments.student_id
+  WHERE payments.id = payment_reversals.payment_id AND teaches_course(auth.uid(), enrollments.course_id)
+));
+
+CREATE OR REPLACE FUNCTION reverse_payment(payment_id UUID, reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target payments%ROWTYPE;
+BEGIN
+  IF COALESCE(trim(reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reverse a payment';
+  END IF;
+
+  SELECT * INTO target FROM payments WHERE id = reverse_payment.payment_id FOR UPDATE;
+  IF NOT FOUND OR NOT (is_admin(auth.uid()) OR EXISTS (
+    SELECT 1 FROM enrollments WHERE enrollments.student_id = target.student_id AND teaches_course(auth.uid(), enrollments.course_id)
+  )) THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+  IF target.status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid payments can be reversed';
+  END IF;
+
+  INSERT INTO payment_reversals (payment_id, reason, previous_paid_date)
+  VALUES (target.id, reason, target.paid_date);
+
+  PERFORM set_config('app.payment_reversal', target.id::text, true);
+  UPDATE payments SET status = 'pending' WHERE id = target.id;
+  PERFORM set_config('app.payment_reversal', '', true);
+END;
+$$;
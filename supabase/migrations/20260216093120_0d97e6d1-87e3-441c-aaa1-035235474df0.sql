@@ -0,0 +1,59 @@
+-- Announcements: section targeting, pinning, scheduling, expiry and editing
+ALTER TABLE public.sections ADD CONSTRAINT sections_id_course_id_key UNIQUE (id, course_id);
+
+ALTER TABLE public.announcements
+  ADD COLUMN section_id UUID,
+  ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN publish_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN expires_at TIMESTAMPTZ,
+  ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+UPDATE public.announcements SET publish_at = created_at, updated_at = created_at;
+
+-- A section target must belong to the announcement's course
+ALTER TABLE public.announcements
+  ADD CONSTRAINT announcements_section_id_fkey FOREIGN KEY (section_id, course_id)
+    REFERENCES public.sections(id, course_id) ON DELETE CASCADE,
+  ADD CONSTRAINT announcements_section_requires_course CHECK (section_id IS NULL OR course_id IS NOT NULL),
+  ADD CONSTRAINT announcements_expiry_after_publish CHECK (expires_at IS NULL OR expires_at > publish_at);
+
+-- Link the author to their profile so cards can show who posted
+DELETE FROM public.announcements WHERE teacher_id NOT IN (SELECT id FROM public.profiles);
+ALTER TABLE public.announcements
+  ADD CONSTRAINT announcements_teacher_id_fkey FOREIGN KEY (teacher_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
+
+CREATE TRIGGER update_announcements_updated_at
+  BEFORE UPDATE ON public.announcements
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Authors and admins see everything; others only live announcements aimed at them
+DROP POLICY IF EXISTS "Members can view announcements" ON public.announcements;
+CREATE POLICY "Members can view announcements"
+ON public.announcements FOR SELECT
+USING (
+  teacher_id = auth.uid() OR is_admin(auth.uid()) OR (
+    publish_at <= now()
+    AND (expires_at IS NULL OR expires_at > now())
+    AND (
+      course_id IS NULL
+      OR teaches_course(auth.uid(), course_id)
+      OR (is_enrolled(auth.uid(), course_id) AND (section_id IS NULL OR EXISTS (
+        SELECT 1 FROM enrollments
+        WHERE enrollments.student_id = auth.uid() AND enrollments.section_id = announcements.section_id
+      )))
+    )
+  )
+);
+
+CREATE POLICY "Teachers can update their announcements"
+ON public.announcements FOR UPDATE
+USING (teacher_id = auth.uid() AND is_teacher(auth.uid()))
+WITH CHECK (
+  teacher_id = auth.uid() AND is_teacher(auth.uid())
+  AND (course_id IS NULL OR teaches_course(auth.uid(), course_id))
+);
+
+CREATE POLICY "Admins can delete announcements"
+ON public.announcements FOR DELETE
+USING (is_admin(auth.uid()));
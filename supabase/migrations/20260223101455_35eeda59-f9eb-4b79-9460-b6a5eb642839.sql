@@ -0,0 +1,6 @@
+-- Stream announcement, submission and result changes to connected clients
+ALTER PUBLICATION supabase_realtime ADD TABLE public.announcements, public.assignment_submissions, public.results;
+
+-- Send the full old row on updates and deletes so clients can tell what changed
+ALTER TABLE public.announcements REPLICA IDENTITY FULL;
+ALTER TABLE public.assignment_submissions REPLICA IDENTITY FULL;
@@ -0,0 +1,154 @@
+-- In-app notifications, written by triggers and read by the recipient
+CREATE TYPE notification_category AS ENUM ('assignment', 'grade', 'result', 'payment');
+
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  category notification_category NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX notifications_user_id_created_at_idx ON public.notifications (user_id, created_at DESC);
+
+-- Categories a user does not want to hear about
+ALTER TABLE public.profiles ADD COLUMN muted_categories notification_category[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications"
+ON public.notifications FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+ON public.notifications FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their notifications"
+ON public.notifications FOR DELETE
+USING (user_id = auth.uid());
+
+-- Fan a notification out to recipients who have not muted its category
+CREATE OR REPLACE FUNCTION send_notification(recipients UUID[], category notification_category, title TEXT, body TEXT, link TEXT)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (user_id, category, title, body, link)
+  SELECT profiles.id, send_notification.category, send_notification.title, send_notification.body, send_notification.link
+  FROM profiles
+  WHERE profiles.id = ANY(recipients) AND NOT (send_notification.category = ANY(profiles.muted_categories));
+$$;
+
+-- New assignment: everyone enrolled in its course, or every student when it has no course
+CREATE OR REPLACE FUNCTION notify_new_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM send_notification(
+    ARRAY(SELECT id FROM profiles WHERE role = 'student' AND (NEW.course_id IS NULL OR is_enrolled(id, NEW.course_id))),
+    'assignment',
+    'New assignment: ' || NEW.title,
+    CASE WHEN NEW.due_date IS NOT NULL THEN 'Due ' || to_char(NEW.due_date, 'Mon DD, YYYY HH24:MI') END,
+    '/dashboard'
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_assignment
+  AFTER INSERT ON public.assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_assignment();
+
+-- Students hear about a grade once it is returned to them
+CREATE OR REPLACE FUNCTION notify_submission_returned()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM send_notification(
+    ARRAY[NEW.student_id],
+    'grade',
+    'Graded: ' || (SELECT title FROM assignments WHERE id = NEW.assignment_id),
+    'Grade: ' || NEW.grade,
+    '/dashboard'
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_submission_returned
+  AFTER UPDATE ON public.assignment_submissions
+  FOR EACH ROW
+  WHEN (NEW.status = 'returned' AND OLD.status IS DISTINCT FROM 'returned')
+  EXECUTE FUNCTION notify_submission_returned();
+
+CREATE OR REPLACE FUNCTION notify_result()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM send_notification(
+    ARRAY[NEW.student_id],
+    'result',
+    CASE WHEN TG_OP = 'INSERT' THEN 'New result: ' ELSE 'Result updated: ' END || NEW.subject || ' ' || NEW.exam_type,
+    NEW.marks_obtained || '/' || NEW.total_marks,
+    '/results'
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_result
+  AFTER INSERT OR UPDATE OF marks_obtained, total_marks ON public.results
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_result();
+
+-- New fee items and fees that fall overdue
+CREATE OR REPLACE FUNCTION notify_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM send_notification(
+      ARRAY[NEW.student_id], 'payment',
+      'New fee: ' || NEW.payment_type,
+      to_char(NEW.amount, 'FM999G999G990D00') || ' due ' || to_char(NEW.due_date, 'Mon DD, YYYY'),
+      '/fees'
+    );
+  ELSIF NEW.status = 'overdue' AND OLD.status IS DISTINCT FROM 'overdue' THEN
+    PERFORM send_notification(
+      ARRAY[NEW.student_id], 'payment',
+      'Overdue: ' || NEW.payment_type,
+      to_char(NEW.amount, 'FM999G999G990D00') || ' was due ' || to_char(NEW.due_date, 'Mon DD, YYYY'),
+      '/fees'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_payment
+  AFTER INSERT OR UPDATE OF status ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_payment();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+REVOKE EXECUTE ON FUNCTION send_notification(UUID[], notification_category, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,164 @@
+-- Email outbox: triggers queue messages, the send-emails edge function delivers them
+CREATE TYPE email_status AS ENUM ('pending', 'sending', 'sent', 'failed');
+
+CREATE TABLE public.email_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  to_email TEXT NOT NULL,
+  template TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}',
+  status email_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  -- Stops the same reminder being queued twice
+  dedupe_key TEXT UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX email_outbox_due_idx ON public.email_outbox (next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Admins track delivery and can requeue failures; everything else goes through the service role
+CREATE POLICY "Admins can view the email outbox"
+ON public.email_outbox FOR SELECT
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can requeue emails"
+ON public.email_outbox FOR UPDATE
+USING (is_admin(auth.uid()));
+
+-- Queue one email per recipient, skipping anyone who muted the category in-app
+CREATE OR REPLACE FUNCTION queue_email(recipients UUID[], category notification_category, template TEXT, data JSONB, dedupe_prefix TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO email_outbox (user_id, to_email, template, data, dedupe_key)
+  SELECT profiles.id, profiles.email, queue_email.template,
+    queue_email.data || jsonb_build_object('full_name', profiles.full_name),
+    CASE WHEN dedupe_prefix IS NOT NULL THEN dedupe_prefix || ':' || profiles.id END
+  FROM profiles
+  WHERE profiles.id = ANY(recipients) AND profiles.active
+    AND NOT (queue_email.category = ANY(profiles.muted_categories))
+  ON CONFLICT (dedupe_key) DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION email_new_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM queue_email(
+    ARRAY(SELECT id FROM profiles WHERE role = 'student' AND (NEW.course_id IS NULL OR is_enrolled(id, NEW.course_id))),
+    'assignment',
+    'assignment_created',
+    jsonb_build_object('title', NEW.title, 'description', NEW.description, 'due_date', NEW.due_date)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER email_new_assignment
+  AFTER INSERT ON public.assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION email_new_assignment();
+
+CREATE OR REPLACE FUNCTION email_overdue_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM queue_email(
+    ARRAY[NEW.student_id],
+    'payment',
+    'payment_overdue',
+    jsonb_build_object('payment_type', NEW.payment_type, 'amount', NEW.amount, 'due_date', NEW.due_date, 'semester', NEW.semester),
+    'payment-overdue:' || NEW.id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER email_overdue_payment
+  AFTER UPDATE OF status ON public.payments
+  FOR EACH ROW
+  WHEN (NEW.status = 'overdue' AND OLD.status IS DISTINCT FROM 'overdue')
+  EXECUTE FUNCTION email_overdue_payment();
+
+-- Remind students who have not submitted an assignment due within the next day
+CREATE OR REPLACE FUNCTION queue_deadline_reminders()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  a RECORD;
+BEGIN
+  FOR a IN
+    SELECT * FROM assignments WHERE due_date > now() AND due_date <= now() + interval '24 hours'
+  LOOP
+    PERFORM queue_email(
+      ARRAY(
+        SELECT id FROM profiles
+        WHERE role = 'student'
+          AND (a.course_id IS NULL OR is_enrolled(id, a.course_id))
+          AND NOT EXISTS (SELECT 1 FROM assignment_submissions WHERE assignment_id = a.id AND student_id = profiles.id)
+      ),
+      'assignment',
+      'assignment_due_soon',
+      jsonb_build_object('title', a.title, 'due_date', a.due_date),
+      'due-soon:' || a.id
+    );
+  END LOOP;
+END;
+$$;
+
+-- Hand the worker a batch of due emails; rows stuck in sending for 10 minutes are retried
+CREATE OR REPLACE FUNCTION claim_email_batch(batch_size INTEGER DEFAULT 20)
+RETURNS SETOF public.email_outbox
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE email_outbox SET status = 'sending', attempts = attempts + 1, next_attempt_at = now() + interval '10 minutes'
+  WHERE id IN (
+    SELECT id FROM email_outbox
+    WHERE status IN ('pending', 'sending') AND next_attempt_at <= now() AND attempts < max_attempts
+    ORDER BY next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_email(UUID[], notification_category, TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION queue_deadline_reminders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_email_batch(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Hourly reminders, and the delivery worker every minute. The worker URL and service key live in Vault:
+--   select vault.create_secret('https://<project>.supabase.co/functions/v1/send-emails', 'email_worker_url');
+--   select vault.create_secret('<service role key>', 'email_worker_key');
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule('queue-deadline-reminders', '0 * * * *', $$SELECT public.queue_deadline_reminders()$$);
+
+SELECT cron.schedule('send-emails', '* * * * *', $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'email_worker_url'),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'email_worker_key')
+    )
+  )
+  WHERE EXISTS (SELECT 1 FROM public.email_outbox WHERE status IN ('pending', 'sending') AND next_attempt_at <= now())
+$$);
@@ -0,0 +1,31 @@
+-- Profiles are created only by the signup trigger, from the metadata passed to signUp
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  meta jsonb := COALESCE(NEW.raw_user_meta_data, '{}'::jsonb);
+  -- Signups can never pick admin, and teacher signups wait for approval
+  requested_role user_role := CASE
+    WHEN meta->>'role' = 'teacher' THEN 'teacher'::user_role
+    ELSE 'student'::user_role
+  END;
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, role, approved, roll_number, course, department, phone)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NULLIF(trim(meta->>'full_name'), ''), 'User'),
+    requested_role,
+    requested_role <> 'teacher',
+    CASE WHEN requested_role = 'student' THEN NULLIF(trim(meta->>'roll_number'), '') END,
+    CASE WHEN requested_role = 'student' THEN NULLIF(trim(meta->>'course'), '') END,
+    CASE WHEN requested_role = 'teacher' THEN NULLIF(trim(meta->>'department'), '') END,
+    NULLIF(trim(meta->>'phone'), '')
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
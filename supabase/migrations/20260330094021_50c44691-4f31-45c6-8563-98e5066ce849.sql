@@ -0,0 +1,60 @@
+-- Profile pictures
+ALTER TABLE public.profiles ADD COLUMN avatar_url TEXT;
+
+-- A roll number identifies one student within a course; existing duplicates must be fixed by hand before enforcing it
+DO $$
+DECLARE
+  conflicts TEXT;
+BEGIN
+  SELECT string_agg(format('%s / %s: %s', course, roll_number, ids), E'\n' ORDER BY course, roll_number)
+  INTO conflicts
+  FROM (
+    SELECT course, roll_number, string_agg(id::TEXT, ', ' ORDER BY created_at, id) AS ids
+    FROM public.profiles
+    WHERE course IS NOT NULL AND roll_number IS NOT NULL
+    GROUP BY course, roll_number
+    HAVING count(*) > 1
+  ) d;
+
+  IF conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'Duplicate roll numbers within a course (course / roll number: profile ids)'
+      USING DETAIL = conflicts, HINT = 'Give each of these students a distinct roll number, then run this migration again';
+  END IF;
+END;
+$$;
+
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_course_roll_number_key UNIQUE (course, roll_number);
+
+-- Email is the sign-in address and only changes through auth (see sync_profile_email)
+CREATE OR REPLACE FUNCTION protect_profile_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin(auth.uid()) THEN
+    NEW.role := OLD.role;
+    NEW.approved := OLD.approved;
+    NEW.active := OLD.active;
+    NEW.email := OLD.email;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Avatar images live under the owner's id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true);
+
+CREATE POLICY "Anyone can view avatars"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload their own avatar"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own avatar"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
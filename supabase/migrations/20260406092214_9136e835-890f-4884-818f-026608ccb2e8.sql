@@ -0,0 +1,128 @@
+-- Attendance: one class session per meeting, one roll-call mark per enrolled student
+ALTER TYPE notification_category ADD VALUE IF NOT EXISTS 'attendance';
+
+CREATE TYPE attendance_status AS ENUM ('present', 'absent', 'late', 'excused');
+
+-- Students below this percentage are warned
+ALTER TABLE public.courses ADD COLUMN min_attendance INTEGER NOT NULL DEFAULT 75 CHECK (min_attendance BETWEEN 0 AND 100);
+
+CREATE TABLE public.class_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  -- NULL when the whole course met together
+  section_id UUID REFERENCES public.sections(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  held_on DATE NOT NULL DEFAULT current_date,
+  topic TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX class_sessions_course_id_held_on_idx ON public.class_sessions (course_id, held_on DESC);
+
+CREATE TABLE public.attendance (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.class_sessions(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status attendance_status NOT NULL DEFAULT 'present',
+  note TEXT,
+  marked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (session_id, student_id)
+);
+
+CREATE INDEX attendance_student_id_idx ON public.attendance (student_id);
+
+ALTER TABLE public.class_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attendance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view class sessions"
+ON public.class_sessions FOR SELECT
+USING (is_admin(auth.uid()) OR teaches_course(auth.uid(), course_id) OR is_enrolled(auth.uid(), course_id));
+
+CREATE POLICY "Course teachers can manage class sessions"
+ON public.class_sessions FOR ALL
+USING (is_admin(auth.uid()) OR teaches_course(auth.uid(), course_id))
+WITH CHECK (is_admin(auth.uid()) OR (teacher_id = auth.uid() AND teaches_course(auth.uid(), course_id)));
+
+CREATE POLICY "Students can view their own attendance"
+ON public.attendance FOR SELECT
+USING (student_id = auth.uid());
+
+CREATE POLICY "Course teachers and admins can view attendance"
+ON public.attendance FOR SELECT
+USING (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM class_sessions WHERE class_sessions.id = session_id AND teaches_course(auth.uid(), class_sessions.course_id)
+));
+
+CREATE POLICY "Course teachers can take attendance"
+ON public.attendance FOR ALL
+USING (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM class_sessions WHERE class_sessions.id = session_id AND teaches_course(auth.uid(), class_sessions.course_id)
+))
+WITH CHECK (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM class_sessions
+  WHERE class_sessions.id = session_id
+    AND teaches_course(auth.uid(), class_sessions.course_id)
+    AND is_enrolled(student_id, class_sessions.course_id)
+));
+
+-- Warn a student once when a mark takes them below the course minimum, not on every later session
+CREATE OR REPLACE FUNCTION notify_low_attendance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  course courses%ROWTYPE;
+  held INTEGER;
+  attended INTEGER;
+  was_held INTEGER;
+  was_attended INTEGER;
+BEGIN
+  SELECT courses.* INTO course FROM courses JOIN class_sessions ON class_sessions.course_id = courses.id
+  WHERE class_sessions.id = NEW.session_id;
+
+  SELECT count(*) FILTER (WHERE attendance.status <> 'excused'), count(*) FILTER (WHERE attendance.status IN ('present', 'late'))
+  INTO held, attended
+  FROM attendance JOIN class_sessions ON class_sessions.id = attendance.session_id
+  WHERE attendance.student_id = NEW.student_id AND class_sessions.course_id = course.id;
+
+  -- Undo this mark to see where the student stood before it
+  was_held := held - (NEW.status <> 'excused')::INTEGER;
+  was_attended := attended - (NEW.status IN ('present', 'late'))::INTEGER;
+  IF TG_OP = 'UPDATE' THEN
+    was_held := was_held + (OLD.status <> 'excused')::INTEGER;
+    was_attended := was_attended + (OLD.status IN ('present', 'late'))::INTEGER;
+  END IF;
+
+  IF held > 0 AND 100.0 * attended / held < course.min_attendance
+    AND (was_held = 0 OR 100.0 * was_attended / was_held >= course.min_attendance) THEN
+    PERFORM send_notification(
+      ARRAY[NEW.student_id],
+      'attendance',
+      'Low attendance: ' || course.code,
+      'Your attendance is ' || round(100.0 * attended / held) || '%, below the required ' || course.min_attendance || '%',
+      '/my-attendance'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_low_attendance
+  AFTER INSERT OR UPDATE OF status ON public.attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_low_attendance();
+
+-- A teacher's class sessions carry their students' attendance
+CREATE OR REPLACE FUNCTION owns_student_records(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM results WHERE teacher_id = owns_student_records.user_id)
+    OR EXISTS (SELECT 1 FROM assignments WHERE teacher_id = owns_student_records.user_id)
+    OR EXISTS (SELECT 1 FROM class_sessions WHERE teacher_id = owns_student_records.user_id);
+$$;
@@ -0,0 +1,93 @@
+-- Academic calendar: terms, holidays and the weekly class timetable
+CREATE TABLE public.terms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_on >= starts_on)
+);
+
+-- No classes are held on holidays; a one-day holiday starts and ends on the same date
+CREATE TABLE public.holidays (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_on >= starts_on)
+);
+
+-- A class that meets every week; weekday follows JavaScript's getDay (0 = Sunday)
+CREATE TABLE public.timetable_slots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  -- NULL when the whole course meets together
+  section_id UUID REFERENCES public.sections(id) ON DELETE CASCADE,
+  teacher_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- NULL repeats every week with no end date
+  term_id UUID REFERENCES public.terms(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  starts_at TIME NOT NULL,
+  ends_at TIME NOT NULL,
+  room TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX timetable_slots_course_id_idx ON public.timetable_slots (course_id);
+
+-- Secret for each user's calendar feed URL, since calendar apps cannot sign in
+CREATE TABLE public.calendar_tokens (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- The caller's feed token, created on first use; pass reset to invalidate a leaked URL
+CREATE OR REPLACE FUNCTION calendar_token(reset BOOLEAN DEFAULT false)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result UUID;
+BEGIN
+  INSERT INTO calendar_tokens (user_id) VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE SET token = CASE WHEN reset THEN gen_random_uuid() ELSE calendar_tokens.token END
+  RETURNING token INTO result;
+  RETURN result;
+END;
+$$;
+
+ALTER TABLE public.terms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.timetable_slots ENABLE ROW LEVEL SECURITY;
+-- No policies: tokens are only read through calendar_token() and the feed function
+ALTER TABLE public.calendar_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view terms"
+ON public.terms FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage terms"
+ON public.terms FOR ALL
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Everyone can view holidays"
+ON public.holidays FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage holidays"
+ON public.holidays FOR ALL
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Everyone can view the timetable"
+ON public.timetable_slots FOR SELECT
+USING (true);
+
+CREATE POLICY "Course teachers and admins can manage the timetable"
+ON public.timetable_slots FOR ALL
+USING (is_admin(auth.uid()) OR teaches_course(auth.uid(), course_id))
+WITH CHECK (is_admin(auth.uid()) OR teaches_course(auth.uid(), course_id));
@@ -0,0 +1,163 @@
+-- Terms scope enrollments, results, assignments and fees; one term is active at a time
+CREATE TYPE term_status AS ENUM ('upcoming', 'active', 'archived');
+
+ALTER TABLE public.terms ADD COLUMN status term_status NOT NULL DEFAULT 'upcoming';
+
+-- Existing data predates terms: create the Spring (Jan-Jun) and Fall (Jul-Dec) semesters it falls in,
+-- matching how the app grouped results by exam date so far
+INSERT INTO public.terms (name, starts_on, ends_on)
+SELECT DISTINCT
+  CASE WHEN extract(month FROM d) <= 6 THEN 'Spring ' ELSE 'Fall ' END || extract(year FROM d)::INTEGER,
+  make_date(extract(year FROM d)::INTEGER, CASE WHEN extract(month FROM d) <= 6 THEN 1 ELSE 7 END, 1),
+  CASE WHEN extract(month FROM d) <= 6 THEN make_date(extract(year FROM d)::INTEGER, 6, 30) ELSE make_date(extract(year FROM d)::INTEGER, 12, 31) END
+FROM (
+  SELECT exam_date AS d FROM public.results
+  UNION SELECT due_date FROM public.payments
+  UNION SELECT COALESCE(due_date, created_at)::DATE FROM public.assignments
+  UNION SELECT current_date
+) AS dates
+WHERE d IS NOT NULL
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE public.terms SET status = CASE
+  WHEN ends_on < current_date THEN 'archived'::term_status
+  WHEN starts_on > current_date THEN 'upcoming'::term_status
+  ELSE 'active'::term_status
+END;
+
+-- Overlapping terms: keep the latest-starting one active
+UPDATE public.terms SET status = 'upcoming'
+WHERE status = 'active' AND id <> (SELECT id FROM public.terms WHERE status = 'active' ORDER BY starts_on DESC LIMIT 1);
+
+CREATE UNIQUE INDEX terms_one_active_idx ON public.terms (status) WHERE status = 'active';
+
+-- The term a date falls in, or the active term when none covers it
+CREATE OR REPLACE FUNCTION term_for_date(day DATE)
+RETURNS UUID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT id FROM terms WHERE day BETWEEN starts_on AND ends_on ORDER BY status = 'active' DESC, starts_on DESC LIMIT 1),
+    (SELECT id FROM terms WHERE status = 'active')
+  );
+$$;
+
+ALTER TABLE public.results ADD COLUMN term_id UUID REFERENCES public.terms(id) ON DELETE SET NULL;
+ALTER TABLE public.payments ADD COLUMN term_id UUID REFERENCES public.terms(id) ON DELETE SET NULL;
+ALTER TABLE public.assignments ADD COLUMN term_id UUID REFERENCES public.terms(id) ON DELETE SET NULL;
+ALTER TABLE public.enrollments ADD COLUMN term_id UUID REFERENCES public.terms(id) ON DELETE SET NULL;
+
+UPDATE public.results SET term_id = term_for_date(exam_date);
+-- Free-text semesters that name a term win over the due date
+UPDATE public.payments SET term_id = COALESCE((SELECT id FROM public.terms WHERE terms.name = trim(payments.semester)), term_for_date(due_date));
+UPDATE public.assignments SET term_id = term_for_date(COALESCE(due_date, created_at)::DATE);
+-- Everyone enrolled today is enrolled in the current term
+UPDATE public.enrollments SET term_id = term_for_date(current_date);
+
+CREATE INDEX results_term_id_idx ON public.results (term_id);
+CREATE INDEX payments_term_id_idx ON public.payments (term_id);
+CREATE INDEX assignments_term_id_idx ON public.assignments (term_id);
+CREATE INDEX enrollments_term_id_idx ON public.enrollments (term_id);
+
+-- A student can take the same course again in a later term
+ALTER TABLE public.enrollments DROP CONSTRAINT enrollments_student_id_course_id_key;
+ALTER TABLE public.enrollments ADD CONSTRAINT enrollments_student_id_course_id_term_id_key UNIQUE NULLS NOT DISTINCT (student_id, course_id, term_id);
+
+-- Rows written without a term land in the term of their date
+CREATE OR REPLACE FUNCTION assign_term()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.term_id IS NULL THEN
+    IF TG_TABLE_NAME = 'results' THEN
+      NEW.term_id := term_for_date(NEW.exam_date);
+    ELSIF TG_TABLE_NAME = 'payments' THEN
+      NEW.term_id := term_for_date(NEW.due_date);
+    ELSIF TG_TABLE_NAME = 'assignments' THEN
+      NEW.term_id := term_for_date(COALESCE(NEW.due_date, now())::DATE);
+    ELSE
+      NEW.term_id := term_for_date(current_date);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_term BEFORE INSERT ON public.results FOR EACH ROW EXECUTE FUNCTION assign_term();
+CREATE TRIGGER assign_term BEFORE INSERT ON public.payments FOR EACH ROW EXECUTE FUNCTION assign_term();
+CREATE TRIGGER assign_term BEFORE INSERT ON public.assignments FOR EACH ROW EXECUTE FUNCTION assign_term();
+CREATE TRIGGER assign_term BEFORE INSERT ON public.enrollments FOR EACH ROW EXECUTE FUNCTION assign_term();
+
+-- Marks and enrollments of an archived term are final; only admins can still correct them
+CREATE OR REPLACE FUNCTION protect_archived_term()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  row_term UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.term_id ELSE NEW.term_id END;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin(auth.uid())
+    AND (EXISTS (SELECT 1 FROM terms WHERE id = row_term AND status = 'archived')
+      OR (TG_OP = 'UPDATE' AND EXISTS (SELECT 1 FROM terms WHERE id = OLD.term_id AND status = 'archived'))) THEN
+    RAISE EXCEPTION 'This term is archived';
+  END IF;
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER protect_archived_term
+  BEFORE INSERT OR UPDATE OR DELETE ON public.results
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_archived_term();
+
+CREATE TRIGGER protect_archived_term
+  BEFORE INSERT OR UPDATE OR DELETE ON public.enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_archived_term();
+
+-- The course students move on to when a term rolls over; NULL when the course is the last one
+ALTER TABLE public.courses ADD COLUMN next_course_id UUID REFERENCES public.courses(id) ON DELETE SET NULL;
+
+-- Archive the active term, activate the next one and, when asked, enroll students in their next course
+CREATE OR REPLACE FUNCTION rollover_term(next_term UUID, promote BOOLEAN DEFAULT true)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous_term UUID;
+  promoted INTEGER := 0;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can roll over terms';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM terms WHERE id = next_term AND status = 'upcoming') THEN
+    RAISE EXCEPTION 'Only an upcoming term can become active';
+  END IF;
+
+  UPDATE terms SET status = 'archived' WHERE status = 'active' RETURNING id INTO previous_term;
+  UPDATE terms SET status = 'active' WHERE id = next_term;
+
+  IF promote AND previous_term IS NOT NULL THEN
+    INSERT INTO enrollments (student_id, course_id, term_id)
+    SELECT enrollments.student_id, courses.next_course_id, next_term
+    FROM enrollments
+    JOIN courses ON courses.id = enrollments.course_id
+    JOIN profiles ON profiles.id = enrollments.student_id
+    WHERE enrollments.term_id = previous_term AND courses.next_course_id IS NOT NULL AND profiles.active
+    ON CONFLICT DO NOTHING;
+    GET DIAGNOSTICS promoted = ROW_COUNT;
+  END IF;
+
+  RETURN promoted;
+END;
+$$;
@@ -0,0 +1,414 @@
+-- Quizzes: question banks per course, timed attempts run through RPCs, auto-grading and CT results
+CREATE TYPE question_type AS ENUM ('mcq', 'multi_select', 'true_false', 'short_answer');
+CREATE TYPE quiz_attempt_status AS ENUM ('in_progress', 'submitted', 'graded');
+
+CREATE TABLE public.question_banks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Students never read this table; correct answers stay on the server
+CREATE TABLE public.questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bank_id UUID NOT NULL REFERENCES public.question_banks(id) ON DELETE CASCADE,
+  type question_type NOT NULL,
+  prompt TEXT NOT NULL,
+  -- Choices in authored order; empty for short answers
+  options TEXT[] NOT NULL DEFAULT '{}',
+  -- Zero-based indexes into options
+  correct INTEGER[] NOT NULL DEFAULT '{}',
+  -- Guidance for whoever grades a short answer
+  model_answer TEXT,
+  points NUMERIC NOT NULL DEFAULT 1 CHECK (points > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (type = 'short_answer' OR (cardinality(options) >= 2 AND cardinality(correct) >= 1))
+);
+
+CREATE INDEX questions_bank_id_idx ON public.questions (bank_id);
+
+CREATE TABLE public.quizzes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  bank_id UUID NOT NULL REFERENCES public.question_banks(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  -- NULL asks every question in the bank
+  question_count INTEGER CHECK (question_count > 0),
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+  opens_at TIMESTAMPTZ NOT NULL,
+  closes_at TIMESTAMPTZ NOT NULL,
+  shuffle_questions BOOLEAN NOT NULL DEFAULT true,
+  shuffle_options BOOLEAN NOT NULL DEFAULT true,
+  -- Graded attempts are copied into results as a CT exam
+  publish_results BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (closes_at > opens_at)
+);
+
+CREATE INDEX quizzes_course_id_idx ON public.quizzes (course_id);
+
+-- Published quiz scores are results of their own, so they never overwrite a hand-entered CT or another quiz on the same day.
+-- Hand-entered marks (no quiz) stay one row per student per exam
+ALTER TABLE public.results ADD COLUMN quiz_id UUID REFERENCES public.quizzes(id) ON DELETE CASCADE;
+ALTER TABLE public.results
+  DROP CONSTRAINT results_student_exam_key,
+  ADD CONSTRAINT results_student_exam_key UNIQUE NULLS NOT DISTINCT (student_id, subject, exam_type, exam_date, quiz_id),
+  ADD CONSTRAINT results_quiz_id_student_id_key UNIQUE (quiz_id, student_id);
+
+-- One attempt per student; the deadline is fixed when the attempt starts
+CREATE TABLE public.quiz_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status quiz_attempt_status NOT NULL DEFAULT 'in_progress',
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deadline TIMESTAMPTZ NOT NULL,
+  submitted_at TIMESTAMPTZ,
+  score NUMERIC,
+  total NUMERIC NOT NULL DEFAULT 0,
+  UNIQUE (quiz_id, student_id)
+);
+
+-- The questions drawn for an attempt, copied so later edits to the bank don't change it
+CREATE TABLE public.quiz_answers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attempt_id UUID NOT NULL REFERENCES public.quiz_attempts(id) ON DELETE CASCADE,
+  question_id UUID REFERENCES public.questions(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL,
+  type question_type NOT NULL,
+  prompt TEXT NOT NULL,
+  options TEXT[] NOT NULL DEFAULT '{}',
+  -- The answer key as drawn; students can't select this column (see the grants below)
+  correct INTEGER[] NOT NULL DEFAULT '{}',
+  -- Indexes into options in the order this student sees them
+  option_order INTEGER[] NOT NULL DEFAULT '{}',
+  -- Indexes into options the student picked
+  selected INTEGER[] NOT NULL DEFAULT '{}',
+  answer_text TEXT,
+  points NUMERIC NOT NULL,
+  -- NULL until auto-graded or marked by the teacher
+  points_awarded NUMERIC,
+  UNIQUE (attempt_id, position)
+);
+
+ALTER TABLE public.question_banks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Course teachers can manage question banks"
+ON public.question_banks FOR ALL
+USING (is_admin(auth.uid()) OR teaches_course(auth.uid(), course_id))
+WITH CHECK (is_admin(auth.uid()) OR (teacher_id = auth.uid() AND teaches_course(auth.uid(), course_id)));
+
+CREATE POLICY "Course teachers can manage questions"
+ON public.questions FOR ALL
+USING (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM question_banks WHERE question_banks.id = bank_id AND teaches_course(auth.uid(), question_banks.course_id)
+))
+WITH CHECK (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM question_banks WHERE question_banks.id = bank_id AND teaches_course(auth.uid(), question_banks.course_id)
+));
+
+CREATE POLICY "Members can view quizzes"
+ON public.quizzes FOR SELECT
+USING (is_teacher(auth.uid()) OR is_admin(auth.uid()) OR is_enrolled(auth.uid(), course_id));
+
+CREATE POLICY "Course teachers can manage quizzes"
+ON public.quizzes FOR ALL
+USING (is_admin(auth.uid()) OR teaches_course(auth.uid(), course_id))
+WITH CHECK (is_admin(auth.uid()) OR (teacher_id = auth.uid() AND teaches_course(auth.uid(), course_id)));
+
+-- Attempts and answers are written only by the functions below
+CREATE POLICY "Students can view their own quiz attempts"
+ON public.quiz_attempts FOR SELECT
+USING (student_id = auth.uid());
+
+CREATE POLICY "Course teachers can view quiz attempts"
+ON public.quiz_attempts FOR SELECT
+USING (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM quizzes WHERE quizzes.id = quiz_id AND teaches_course(auth.uid(), quizzes.course_id)
+));
+
+CREATE POLICY "Students can view their own quiz answers"
+ON public.quiz_answers FOR SELECT
+USING (EXISTS (SELECT 1 FROM quiz_attempts WHERE quiz_attempts.id = attempt_id AND quiz_attempts.student_id = auth.uid()));
+
+CREATE POLICY "Course teachers can view quiz answers"
+ON public.quiz_answers FOR SELECT
+USING (is_admin(auth.uid()) OR EXISTS (
+  SELECT 1 FROM quiz_attempts JOIN quizzes ON quizzes.id = quiz_attempts.quiz_id
+  WHERE quiz_attempts.id = attempt_id AND teaches_course(auth.uid(), quizzes.course_id)
+));
+
+-- Every column but the answer key; teachers read the key from questions
+REVOKE SELECT ON public.quiz_answers FROM anon, authenticated;
+GRANT SELECT (id, attempt_id, question_id, position, type, prompt, options, option_order, selected, answer_text, points, points_awarded)
+  ON public.quiz_answers TO authenticated;
+
+-- Start the signed-in student's attempt, or return the one already started
+CREATE OR REPLACE FUNCTION start_quiz(quiz UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q quizzes%ROWTYPE;
+  attempt UUID;
+BEGIN
+  SELECT * INTO q FROM quizzes WHERE id = quiz;
+  IF NOT FOUND OR NOT is_enrolled(auth.uid(), q.course_id) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  SELECT id INTO attempt FROM quiz_attempts WHERE quiz_id = q.id AND student_id = auth.uid();
+  IF FOUND THEN
+    RETURN attempt;
+  END IF;
+
+  IF now() < q.opens_at OR now() >= q.closes_at THEN
+    RAISE EXCEPTION 'This quiz is not open';
+  END IF;
+
+  -- Time runs out at the duration or when the quiz closes, whichever comes first
+  INSERT INTO quiz_attempts (quiz_id, student_id, deadline)
+  VALUES (q.id, auth.uid(), least(now() + make_interval(mins => q.duration_minutes), q.closes_at))
+  RETURNING id INTO attempt;
+
+  -- Draw a random subset when the quiz asks fewer questions than the bank holds
+  INSERT INTO quiz_answers (attempt_id, question_id, position, type, prompt, options, correct, option_order, points)
+  SELECT attempt, drawn.id,
+    row_number() OVER (ORDER BY CASE WHEN q.shuffle_questions THEN random() END, drawn.created_at, drawn.id),
+    drawn.type, drawn.prompt, drawn.options, drawn.correct,
+    CASE WHEN q.shuffle_options AND drawn.type <> 'true_false'
+      THEN ARRAY(SELECT i FROM generate_series(0, cardinality(drawn.options) - 1) AS i ORDER BY random())
+      ELSE ARRAY(SELECT generate_series(0, cardinality(drawn.options) - 1))
+    END,
+    drawn.points
+  FROM (SELECT * FROM questions WHERE bank_id = q.bank_id ORDER BY random() LIMIT q.question_count) AS drawn;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This quiz has no questions';
+  END IF;
+
+  UPDATE quiz_attempts SET total = (SELECT sum(points) FROM quiz_answers WHERE attempt_id = attempt) WHERE id = attempt;
+  RETURN attempt;
+END;
+$$;
+
+-- Answers are only accepted while the attempt is open and before its deadline, and only as options of the question
+CREATE OR REPLACE FUNCTION save_quiz_answer(answer UUID, choices INTEGER[], response TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target quiz_answers%ROWTYPE;
+BEGIN
+  SELECT quiz_answers.* INTO target
+  FROM quiz_answers JOIN quiz_attempts ON quiz_attempts.id = quiz_answers.attempt_id
+  WHERE quiz_answers.id = answer
+    AND quiz_attempts.student_id = auth.uid()
+    AND quiz_attempts.status = 'in_progress'
+    AND now() <= quiz_attempts.deadline
+  FOR UPDATE OF quiz_answers;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This attempt is closed';
+  END IF;
+
+  choices := coalesce(choices, '{}');
+  IF target.type = 'short_answer' AND cardinality(choices) > 0 THEN
+    RAISE EXCEPTION 'Short answers take no choices';
+  END IF;
+  IF EXISTS (SELECT 1 FROM unnest(choices) AS c WHERE c IS NULL OR c < 0 OR c >= cardinality(target.options)) THEN
+    RAISE EXCEPTION 'Invalid choice';
+  END IF;
+  IF cardinality(choices) <> (SELECT count(DISTINCT c) FROM unnest(choices) AS c) THEN
+    RAISE EXCEPTION 'An option can only be picked once';
+  END IF;
+  IF target.type IN ('mcq', 'true_false') AND cardinality(choices) > 1 THEN
+    RAISE EXCEPTION 'Pick only one option';
+  END IF;
+
+  UPDATE quiz_answers SET selected = choices, answer_text = response WHERE id = target.id;
+END;
+$$;
+
+-- Copy a graded attempt into results when its quiz publishes scores
+CREATE OR REPLACE FUNCTION publish_quiz_attempt(attempt UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO results (quiz_id, student_id, teacher_id, course_id, subject, exam_type, exam_date, marks_obtained, total_marks, remarks)
+  SELECT quizzes.id, quiz_attempts.student_id, quizzes.teacher_id, quizzes.course_id, courses.name, 'CT',
+    quizzes.opens_at::DATE, quiz_attempts.score, quiz_attempts.total, 'Quiz: ' || quizzes.title
+  FROM quiz_attempts
+  JOIN quizzes ON quizzes.id = quiz_attempts.quiz_id
+  JOIN courses ON courses.id = quizzes.course_id
+  WHERE quiz_attempts.id = attempt AND quiz_attempts.status = 'graded' AND quizzes.publish_results
+  ON CONFLICT (quiz_id, student_id)
+  DO UPDATE SET subject = EXCLUDED.subject, exam_date = EXCLUDED.exam_date,
+    marks_obtained = EXCLUDED.marks_obtained, total_marks = EXCLUDED.total_marks, remarks = EXCLUDED.remarks;
+$$;
+
+-- Total the awarded points; the attempt is graded once no answer is waiting for a teacher
+CREATE OR REPLACE FUNCTION score_quiz_attempt(attempt UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE quiz_attempts
+  SET score = totals.score,
+    status = CASE WHEN totals.ungraded = 0 THEN 'graded'::quiz_attempt_status ELSE 'submitted' END
+  FROM (
+    SELECT coalesce(sum(points_awarded), 0) AS score, count(*) FILTER (WHERE points_awarded IS NULL) AS ungraded
+    FROM quiz_answers WHERE attempt_id = attempt
+  ) AS totals
+  WHERE quiz_attempts.id = attempt;
+
+  PERFORM publish_quiz_attempt(attempt);
+END;
+$$;
+
+-- Close an attempt and auto-grade it: objective questions score only when exactly the right options are picked
+CREATE OR REPLACE FUNCTION finish_quiz_attempt(attempt UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE quiz_attempts SET submitted_at = least(now(), deadline), status = 'submitted'
+  WHERE id = attempt AND status = 'in_progress';
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Against the key copied when the attempt started, so bank edits and deletions don't affect it
+  UPDATE quiz_answers
+  SET points_awarded = CASE
+    WHEN ARRAY(SELECT DISTINCT unnest(quiz_answers.selected) ORDER BY 1) = ARRAY(SELECT DISTINCT unnest(quiz_answers.correct) ORDER BY 1)
+    THEN quiz_answers.points ELSE 0 END
+  WHERE quiz_answers.attempt_id = attempt AND quiz_answers.type <> 'short_answer';
+
+  PERFORM score_quiz_attempt(attempt);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_quiz(attempt UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM quiz_attempts WHERE id = attempt AND student_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Attempt not found';
+  END IF;
+  PERFORM finish_quiz_attempt(attempt);
+END;
+$$;
+
+-- Attempts left open past their deadline are submitted as they stand
+CREATE OR REPLACE FUNCTION close_expired_quiz_attempts()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired UUID;
+BEGIN
+  FOR expired IN SELECT id FROM quiz_attempts WHERE status = 'in_progress' AND deadline < now() LOOP
+    PERFORM finish_quiz_attempt(expired);
+  END LOOP;
+END;
+$$;
+
+-- Teachers mark the answers auto-grading leaves behind, and can override any other
+CREATE OR REPLACE FUNCTION grade_quiz_answer(answer UUID, awarded NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt UUID;
+BEGIN
+  SELECT quiz_answers.attempt_id INTO attempt
+  FROM quiz_answers
+  JOIN quiz_attempts ON quiz_attempts.id = quiz_answers.attempt_id
+  JOIN quizzes ON quizzes.id = quiz_attempts.quiz_id
+  WHERE quiz_answers.id = answer
+    AND quiz_attempts.status <> 'in_progress'
+    AND (is_admin(auth.uid()) OR teaches_course(auth.uid(), quizzes.course_id));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Answer not found';
+  END IF;
+
+  UPDATE quiz_answers SET points_awarded = awarded WHERE id = answer AND awarded BETWEEN 0 AND points;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Points must be between 0 and the question''s points';
+  END IF;
+
+  PERFORM score_quiz_attempt(attempt);
+END;
+$$;
+
+-- Turn on publishing for a quiz and copy every attempt graded so far
+CREATE OR REPLACE FUNCTION publish_quiz_results(quiz UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt UUID;
+  published INTEGER := 0;
+BEGIN
+  UPDATE quizzes SET publish_results = true
+  WHERE id = quiz AND (is_admin(auth.uid()) OR teaches_course(auth.uid(), course_id));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  FOR attempt IN SELECT id FROM quiz_attempts WHERE quiz_id = quiz AND status = 'graded' LOOP
+    PERFORM publish_quiz_attempt(attempt);
+    published := published + 1;
+  END LOOP;
+  RETURN published;
+END;
+$$;
+
+-- Quizzes and the banks they draw from carry students' attempts
+CREATE OR REPLACE FUNCTION owns_student_records(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM results WHERE teacher_id = owns_student_records.user_id)
+    OR EXISTS (SELECT 1 FROM assignments WHERE teacher_id = owns_student_records.user_id)
+    OR EXISTS (SELECT 1 FROM class_sessions WHERE teacher_id = owns_student_records.user_id)
+    OR EXISTS (SELECT 1 FROM quizzes WHERE teacher_id = owns_student_records.user_id)
+    OR EXISTS (SELECT 1 FROM question_banks WHERE teacher_id = owns_student_records.user_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_quiz_attempt(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION score_quiz_attempt(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_quiz_attempt(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION close_expired_quiz_attempts() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('close-expired-quiz-attempts', '* * * * *', $$SELECT public.close_expired_quiz_attempts()$$);
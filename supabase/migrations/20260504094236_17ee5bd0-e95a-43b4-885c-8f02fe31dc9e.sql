@@ -0,0 +1,92 @@
+-- Rubrics: reusable criteria × performance levels, attached to assignments and filled in when grading
+CREATE TABLE public.rubrics (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  teacher_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- [{ "title": "Research", "description": "...", "levels": [{ "label": "Excellent", "points": 10 }, ...] }, ...]
+  criteria JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(criteria) = 'array'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_rubrics_updated_at
+  BEFORE UPDATE ON public.rubrics
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE public.rubrics ENABLE ROW LEVEL SECURITY;
+
+-- Any teacher can reuse a colleague's rubric; students see the rubric their work is graded against
+CREATE POLICY "Everyone can view rubrics"
+ON public.rubrics
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Teachers can manage their own rubrics"
+ON public.rubrics
+FOR ALL
+USING (is_admin(auth.uid()) OR teacher_id = auth.uid())
+WITH CHECK (is_admin(auth.uid()) OR (teacher_id = auth.uid() AND is_teacher(auth.uid())));
+
+ALTER TABLE public.assignments ADD COLUMN rubric_id UUID REFERENCES public.rubrics(id) ON DELETE SET NULL;
+
+-- The rubric as graded, each criterion carrying the index of the level picked, so later edits don't change past grades
+ALTER TABLE public.assignment_submissions ADD COLUMN rubric_scores JSONB;
+
+-- Sum of the points of each criterion's picked level
+CREATE OR REPLACE FUNCTION rubric_total(scores JSONB)
+RETURNS NUMERIC
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT coalesce(sum((criterion -> 'levels' -> (criterion ->> 'selected')::INTEGER ->> 'points')::NUMERIC), 0)
+  FROM jsonb_array_elements(scores) AS criterion;
+$$;
+
+-- A filled rubric always decides the grade
+CREATE OR REPLACE FUNCTION apply_rubric_grade()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.rubric_scores IS NOT NULL THEN
+    NEW.grade := rubric_total(NEW.rubric_scores);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_rubric_grade
+  BEFORE INSERT OR UPDATE OF rubric_scores ON public.assignment_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_rubric_grade();
+
+-- Students can't fill in their own rubric either; this runs after apply_rubric_grade, so both are cleared
+CREATE OR REPLACE FUNCTION protect_submission_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF is_teacher(auth.uid()) OR is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status IS DISTINCT FROM 'submitted' THEN
+      RAISE EXCEPTION 'Submission has already been graded';
+    END IF;
+    NEW.assignment_id := OLD.assignment_id;
+    NEW.student_id := OLD.student_id;
+  END IF;
+
+  NEW.grade := NULL;
+  NEW.feedback := NULL;
+  NEW.rubric_scores := NULL;
+  NEW.status := 'submitted';
+  NEW.submitted_at := now();
+  RETURN NEW;
+END;
+$$;